@@ -76,6 +76,20 @@ cd "$PROJECT_ROOT/queries/export/javascript"
 codeql pack install --silent 2>/dev/null || codeql pack install
 cd "$PROJECT_ROOT/queries/export/python"
 codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/export/java"
+codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/export/cpp"
+codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/export/go"
+codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/export/csharp"
+codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/export/ruby"
+codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/patterns/javascript"
+codeql pack install --silent 2>/dev/null || codeql pack install
+cd "$PROJECT_ROOT/queries/patterns/python"
+codeql pack install --silent 2>/dev/null || codeql pack install
 echo "✓ Query packs installed"
 
 echo ""
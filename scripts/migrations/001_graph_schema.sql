@@ -0,0 +1,128 @@
+-- Graph tables: functions, classes, calls, class methods and variables
+-- Written with IF NOT EXISTS so installations created from the old
+-- schema.sql are adopted without changes
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;  -- Fuzzy text search
+
+-- Functions table
+CREATE TABLE IF NOT EXISTS functions (
+    id SERIAL PRIMARY KEY,
+    codeql_id TEXT UNIQUE NOT NULL,
+    database_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    file TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    num_params INTEGER DEFAULT 0,
+    signature TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Classes table
+CREATE TABLE IF NOT EXISTS classes (
+    id SERIAL PRIMARY KEY,
+    codeql_id TEXT UNIQUE NOT NULL,
+    database_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    file TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    parent_codeql_id TEXT,
+    parent_id INTEGER REFERENCES classes(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Function calls (edges in call graph)
+CREATE TABLE IF NOT EXISTS function_calls (
+    id SERIAL PRIMARY KEY,
+    database_name TEXT NOT NULL,
+    caller_codeql_id TEXT NOT NULL,
+    callee_codeql_id TEXT NOT NULL,
+    caller_id INTEGER REFERENCES functions(id) ON DELETE CASCADE,
+    callee_id INTEGER REFERENCES functions(id) ON DELETE CASCADE,
+    callee_name TEXT,  -- Store function name even if unresolved
+    file TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Installations older than callee_name
+ALTER TABLE function_calls ADD COLUMN IF NOT EXISTS callee_name TEXT;
+UPDATE function_calls
+SET callee_name = (
+  CASE
+    -- Extract from "unresolved:functionName@file:line" format
+    WHEN callee_codeql_id LIKE 'unresolved:%' THEN
+      substring(callee_codeql_id from 'unresolved:([^@]+)@')
+    -- Extract from "FunctionName@file:line" format
+    ELSE
+      substring(callee_codeql_id from '^([^@]+)@')
+  END
+)
+WHERE callee_name IS NULL;
+
+-- Class methods (relationship between classes and their methods)
+CREATE TABLE IF NOT EXISTS class_methods (
+    id SERIAL PRIMARY KEY,
+    database_name TEXT NOT NULL,
+    class_codeql_id TEXT NOT NULL,
+    method_codeql_id TEXT NOT NULL,
+    method_name TEXT,
+    class_id INTEGER REFERENCES classes(id) ON DELETE CASCADE,
+    method_id INTEGER REFERENCES functions(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(class_id, method_id)
+);
+
+-- Global variables
+CREATE TABLE IF NOT EXISTS variables (
+    id SERIAL PRIMARY KEY,
+    database_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    file TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    scope TEXT,  -- 'global', 'module', 'function'
+    var_type TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Functions
+CREATE INDEX IF NOT EXISTS idx_functions_name ON functions(name);
+CREATE INDEX IF NOT EXISTS idx_functions_name_trgm ON functions USING gin(name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_functions_db ON functions(database_name);
+CREATE INDEX IF NOT EXISTS idx_functions_file ON functions(file);
+CREATE INDEX IF NOT EXISTS idx_functions_codeql_id ON functions(codeql_id);
+
+-- Classes
+CREATE INDEX IF NOT EXISTS idx_classes_name ON classes(name);
+CREATE INDEX IF NOT EXISTS idx_classes_name_trgm ON classes USING gin(name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_classes_db ON classes(database_name);
+CREATE INDEX IF NOT EXISTS idx_classes_parent ON classes(parent_id);
+CREATE INDEX IF NOT EXISTS idx_classes_codeql_id ON classes(codeql_id);
+
+-- Function calls (critical for call graph queries)
+CREATE INDEX IF NOT EXISTS idx_calls_caller ON function_calls(caller_id);
+CREATE INDEX IF NOT EXISTS idx_calls_callee ON function_calls(callee_id);
+CREATE INDEX IF NOT EXISTS idx_calls_db ON function_calls(database_name);
+CREATE INDEX IF NOT EXISTS idx_calls_caller_codeql ON function_calls(caller_codeql_id);
+CREATE INDEX IF NOT EXISTS idx_calls_callee_codeql ON function_calls(callee_codeql_id);
+CREATE INDEX IF NOT EXISTS idx_calls_callee_name ON function_calls(callee_name);
+
+-- Class methods
+CREATE INDEX IF NOT EXISTS idx_class_methods_class ON class_methods(class_id);
+CREATE INDEX IF NOT EXISTS idx_class_methods_method ON class_methods(method_id);
+CREATE INDEX IF NOT EXISTS idx_class_methods_db ON class_methods(database_name);
+
+-- Variables
+CREATE INDEX IF NOT EXISTS idx_variables_name ON variables(name);
+CREATE INDEX IF NOT EXISTS idx_variables_db ON variables(database_name);
+CREATE INDEX IF NOT EXISTS idx_variables_file ON variables(file);
+
+COMMENT ON TABLE functions IS 'All functions extracted from CodeQL databases';
+COMMENT ON TABLE classes IS 'All classes with inheritance relationships';
+COMMENT ON TABLE function_calls IS 'Call graph edges: which functions call which';
+COMMENT ON TABLE class_methods IS 'Relationship between classes and their methods';
+COMMENT ON TABLE variables IS 'Global and module-level variables';
+
+COMMENT ON COLUMN function_calls.caller_id IS 'Foreign key to functions table (the caller)';
+COMMENT ON COLUMN function_calls.callee_id IS 'Foreign key to functions table (the callee)';
+COMMENT ON COLUMN function_calls.callee_name IS 'Function name extracted from callee_codeql_id for faster unresolved call lookups';
+COMMENT ON COLUMN classes.parent_id IS 'Foreign key to parent class for inheritance';
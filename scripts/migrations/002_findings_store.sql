@@ -0,0 +1,39 @@
+-- Findings store: analysis runs and their SARIF results
+
+-- Analysis runs (one per analyze_security / run_query SARIF result)
+CREATE TABLE IF NOT EXISTS analysis_runs (
+    id SERIAL PRIMARY KEY,
+    database_name TEXT NOT NULL,
+    tool TEXT NOT NULL,  -- 'analyze_security', 'run_query'
+    query TEXT,          -- Suite or query that produced the results
+    sarif_file TEXT,
+    finding_count INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Findings (SARIF results) per analysis run
+CREATE TABLE IF NOT EXISTS findings (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES analysis_runs(id) ON DELETE CASCADE,
+    database_name TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,  -- Rule id plus SARIF partialFingerprints
+    rule_id TEXT NOT NULL,
+    level TEXT NOT NULL,
+    message TEXT,
+    file TEXT,
+    line INTEGER,
+    col INTEGER,
+    security_severity REAL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_db ON analysis_runs(database_name, created_at);
+CREATE INDEX IF NOT EXISTS idx_findings_run ON findings(run_id);
+CREATE INDEX IF NOT EXISTS idx_findings_db ON findings(database_name);
+CREATE INDEX IF NOT EXISTS idx_findings_fingerprint ON findings(database_name, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_findings_rule ON findings(rule_id);
+CREATE INDEX IF NOT EXISTS idx_findings_file ON findings(file);
+
+COMMENT ON TABLE analysis_runs IS 'SARIF analyses ingested from analyze_security and run_query';
+COMMENT ON TABLE findings IS 'SARIF results of each analysis run';
+COMMENT ON COLUMN findings.fingerprint IS 'Rule id plus SARIF partialFingerprints, stable across runs';
@@ -0,0 +1,54 @@
+-- Per-database isolation of the graph: a registry of indexed databases,
+-- codeql_id unique per database and graph rows cascading from the registry
+
+CREATE TABLE IF NOT EXISTS graph_databases (
+    name TEXT PRIMARY KEY,
+    language TEXT,
+    db_path TEXT,
+    indexed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+INSERT INTO graph_databases (name, indexed_at)
+SELECT database_name, NOW() FROM functions
+UNION SELECT database_name, NOW() FROM classes
+UNION SELECT database_name, NOW() FROM function_calls
+UNION SELECT database_name, NOW() FROM class_methods
+UNION SELECT database_name, NOW() FROM variables
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE functions DROP CONSTRAINT IF EXISTS functions_codeql_id_key;
+ALTER TABLE classes DROP CONSTRAINT IF EXISTS classes_codeql_id_key;
+DROP INDEX IF EXISTS idx_functions_codeql_id;
+DROP INDEX IF EXISTS idx_classes_codeql_id;
+DROP INDEX IF EXISTS idx_calls_caller_codeql;
+DROP INDEX IF EXISTS idx_calls_callee_codeql;
+CREATE INDEX IF NOT EXISTS idx_calls_caller_codeql ON function_calls(database_name, caller_codeql_id);
+CREATE INDEX IF NOT EXISTS idx_calls_callee_codeql ON function_calls(database_name, callee_codeql_id);
+
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    BEGIN
+        ALTER TABLE functions ADD CONSTRAINT functions_database_name_codeql_id_key UNIQUE (database_name, codeql_id);
+    EXCEPTION WHEN duplicate_table OR duplicate_object THEN NULL;
+    END;
+    BEGIN
+        ALTER TABLE classes ADD CONSTRAINT classes_database_name_codeql_id_key UNIQUE (database_name, codeql_id);
+    EXCEPTION WHEN duplicate_table OR duplicate_object THEN NULL;
+    END;
+
+    FOREACH t IN ARRAY ARRAY['functions', 'classes', 'function_calls', 'class_methods', 'variables'] LOOP
+        BEGIN
+            EXECUTE format(
+                'ALTER TABLE %I ADD CONSTRAINT %I FOREIGN KEY (database_name) REFERENCES graph_databases(name) ON DELETE CASCADE',
+                t, t || '_database_name_fkey'
+            );
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END;
+    END LOOP;
+END $$;
+
+COMMENT ON TABLE graph_databases IS 'Indexed CodeQL databases; graph rows cascade from here';
+COMMENT ON COLUMN functions.codeql_id IS 'Identifier from CodeQL (e.g., function toString), unique per database';
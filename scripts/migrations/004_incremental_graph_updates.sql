@@ -0,0 +1,21 @@
+-- Incremental graph updates: content hashes of the files each database was
+-- indexed from, and the file of each class method so its rows can be
+-- replaced per file
+
+CREATE TABLE IF NOT EXISTS indexed_files (
+    database_name TEXT NOT NULL REFERENCES graph_databases(name) ON DELETE CASCADE,
+    file TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    indexed_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (database_name, file)
+);
+
+ALTER TABLE class_methods ADD COLUMN IF NOT EXISTS file TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_classes_file ON classes(database_name, file);
+CREATE INDEX IF NOT EXISTS idx_calls_file ON function_calls(database_name, file);
+CREATE INDEX IF NOT EXISTS idx_class_methods_file ON class_methods(database_name, file);
+
+COMMENT ON TABLE indexed_files IS 'Source files of each indexed database with their content hashes';
+COMMENT ON COLUMN indexed_files.content_hash IS 'Hash from the source archive (CRC-32 for src.zip, SHA-256 for src/)';
+COMMENT ON COLUMN class_methods.file IS 'File containing the method; NULL for rows indexed before incremental updates';
@@ -0,0 +1,35 @@
+-- Variable lookups: an id per variable so usages can reference it, and the
+-- reads and writes of each variable with the function they occur in
+
+ALTER TABLE variables ADD COLUMN IF NOT EXISTS codeql_id TEXT;
+
+DO $$
+BEGIN
+    ALTER TABLE variables ADD CONSTRAINT variables_database_name_codeql_id_key UNIQUE (database_name, codeql_id);
+EXCEPTION WHEN duplicate_table OR duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS variable_usages (
+    id SERIAL PRIMARY KEY,
+    database_name TEXT NOT NULL REFERENCES graph_databases(name) ON DELETE CASCADE,
+    variable_codeql_id TEXT NOT NULL,
+    accessor_codeql_id TEXT,
+    file TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    access TEXT NOT NULL,  -- 'read' or 'write'
+    variable_id INTEGER REFERENCES variables(id) ON DELETE CASCADE,
+    accessor_id INTEGER REFERENCES functions(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_variables_name_trgm ON variables USING gin(name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_variables_db_file ON variables(database_name, file);
+CREATE INDEX IF NOT EXISTS idx_variable_usages_variable ON variable_usages(variable_id);
+CREATE INDEX IF NOT EXISTS idx_variable_usages_variable_codeql ON variable_usages(database_name, variable_codeql_id);
+CREATE INDEX IF NOT EXISTS idx_variable_usages_file ON variable_usages(database_name, file);
+
+COMMENT ON TABLE variables IS 'Global, module and class-level variables';
+COMMENT ON COLUMN variables.codeql_id IS 'Identifier from CodeQL, unique per database; NULL for rows indexed before variable usages';
+COMMENT ON COLUMN variables.scope IS 'global, module or class';
+COMMENT ON TABLE variable_usages IS 'Reads and writes of indexed variables';
+COMMENT ON COLUMN variable_usages.accessor_id IS 'Foreign key to the function containing the usage; NULL at module level';
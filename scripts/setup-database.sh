@@ -76,14 +76,14 @@ echo "[4/5] Installing PostgreSQL extensions..."
 sudo -u postgres psql -d "$POSTGRES_DB" -c "CREATE EXTENSION IF NOT EXISTS pg_trgm;" 2>/dev/null || true
 echo "✓ Installed pg_trgm extension"
 
-# Initialize schema
+# Reset schema; the server creates the tables from scripts/migrations on first connection
 echo ""
-echo "[5/5] Initializing database schema..."
+echo "[5/5] Resetting database schema..."
 if [ -f "$SCRIPT_DIR/schema.sql" ]; then
     PGPASSWORD=$POSTGRES_PASSWORD psql -h localhost -U $POSTGRES_USER -d $POSTGRES_DB -f "$SCRIPT_DIR/schema.sql" > /dev/null 2>&1
-    echo "✓ Schema initialized"
+    echo "✓ Schema reset (tables are created by the server's migrations on first connection)"
 else
-    echo "⚠️  schema.sql not found, skipping schema initialization"
+    echo "⚠️  schema.sql not found, skipping schema reset"
 fi
 
 # Test connection
@@ -0,0 +1,231 @@
+import { createHash } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { lstat, readFile, readdir, stat } from "fs/promises";
+import { join, resolve, sep } from "path";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Where a database keeps the copy of its source files
+ */
+export interface SourceArchive {
+  // src.zip of a finalized database
+  zipPath?: string;
+  // src/ directory of an unfinalized database
+  dirPath?: string;
+  // Absolute source root; SARIF and graph paths are relative to it
+  sourceLocationPrefix: string;
+}
+
+/**
+ * Path of a source file inside the archive. The archive mirrors absolute
+ * paths, e.g. /home/me/app/src/a.js is stored as home/me/app/src/a.js.
+ */
+export function archiveEntryPath(archive: SourceArchive, file: string): string {
+  const absolute = file.startsWith("/") || /^[A-Za-z]:/.test(file)
+    ? file
+    : `${archive.sourceLocationPrefix.replace(/[\\/]+$/, "")}/${file}`;
+  // Windows drive letters are stored as "C_"
+  return absolute.replace(/\\/g, "/").replace(/^([A-Za-z]):/, "$1_").replace(/^\/+/, "");
+}
+
+/**
+ * Inverse of archiveEntryPath: files under the source root are reported
+ * relative to it, like SARIF and graph locations; anything else (e.g.
+ * dependencies extracted from outside the checkout) stays absolute.
+ */
+export function sourcePathOf(archive: SourceArchive, entry: string): string {
+  const root = archiveEntryPath(archive, archive.sourceLocationPrefix);
+  if (!root) {
+    return entry;
+  }
+  if (entry.startsWith(root + "/")) {
+    return entry.slice(root.length + 1);
+  }
+  return /^[A-Za-z]_\//.test(entry) ? entry.replace(/^([A-Za-z])_/, "$1:") : `/${entry}`;
+}
+
+export interface ArchiveFile {
+  path: string;
+  size: number;
+}
+
+/**
+ * Every file in the archive with its uncompressed size
+ */
+export async function listArchiveFiles(archive: SourceArchive): Promise<ArchiveFile[]> {
+  const files: ArchiveFile[] = [];
+
+  if (archive.zipPath) {
+    const { stdout } = await execFileAsync("unzip", ["-l", archive.zipPath], {
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    // "  Length      Date    Time    Name" rows between two dashed rules
+    for (const line of stdout.split("\n")) {
+      const match = line.match(/^\s*(\d+)\s+\S+\s+\S+\s+(.+)$/);
+      if (match && !match[2].endsWith("/")) {
+        files.push({ path: sourcePathOf(archive, match[2]), size: parseInt(match[1]) });
+      }
+    }
+  } else if (archive.dirPath) {
+    for (const name of await readdir(archive.dirPath, { recursive: true })) {
+      const info = await lstat(join(archive.dirPath, name));
+      if (!info.isFile()) {
+        continue;
+      }
+      files.push({ path: sourcePathOf(archive, name.replace(/\\/g, "/")), size: info.size });
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Content hash of every file in the archive, keyed like listArchiveFiles.
+ * A zip's listing already carries each entry's CRC-32, so nothing is
+ * decompressed; a src/ directory is hashed with SHA-256.
+ */
+export async function archiveFileHashes(archive: SourceArchive): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+
+  if (archive.zipPath) {
+    const { stdout } = await execFileAsync("unzip", ["-v", archive.zipPath], {
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    // " Length  Method  Size  Cmpr  Date  Time  CRC-32  Name" rows
+    for (const line of stdout.split("\n")) {
+      const match = line.match(/^\s*(\d+)\s+\S+\s+\d+\s+-?\d+%\s+\S+\s+\S+\s+([0-9a-f]{8})\s+(.+)$/);
+      if (match && !match[3].endsWith("/")) {
+        hashes.set(sourcePathOf(archive, match[3]), `crc32:${match[2]}:${match[1]}`);
+      }
+    }
+  } else if (archive.dirPath) {
+    for (const name of await readdir(archive.dirPath, { recursive: true })) {
+      const full = join(archive.dirPath, name);
+      if (!(await lstat(full)).isFile()) {
+        continue;
+      }
+      const hash = createHash("sha256").update(await readFile(full)).digest("hex");
+      hashes.set(sourcePathOf(archive, name.replace(/\\/g, "/")), `sha256:${hash}`);
+    }
+  }
+
+  return hashes;
+}
+
+// Files an incremental graph update replaces, relative to the source root
+export interface GraphFileChanges {
+  added: string[];
+  modified: string[];
+  removed: string[];
+}
+
+/**
+ * Classify files by comparing current archive hashes with the `indexed`
+ * ones: `changedFiles` when given, otherwise every file whose hash differs
+ */
+export function compareFileHashes(
+  hashes: Map<string, string>,
+  indexed: Map<string, string>,
+  changedFiles?: string[]
+): GraphFileChanges {
+  const candidates = changedFiles
+    ? changedFiles.map(file => file.replace(/^\.\//, ""))
+    : Array.from(new Set([...hashes.keys(), ...indexed.keys()])).filter(file => hashes.get(file) !== indexed.get(file));
+
+  const changes: GraphFileChanges = { added: [], modified: [], removed: [] };
+  for (const file of Array.from(new Set(candidates)).sort()) {
+    if (!hashes.has(file)) {
+      changes.removed.push(file);
+    } else if (!indexed.has(file)) {
+      changes.added.push(file);
+    } else {
+      changes.modified.push(file);
+    }
+  }
+  return changes;
+}
+
+/**
+ * unzip treats entry names as wildcard patterns; escape them so names like
+ * pages/[id].tsx match only themselves
+ */
+export function unzipPattern(entry: string): string {
+  return entry.replace(/[\\[\]*?]/g, "\\$&");
+}
+
+/**
+ * Read one file from the archive, or null if it is not there
+ */
+export async function readArchiveFile(archive: SourceArchive, file: string): Promise<string | null> {
+  const entry = archiveEntryPath(archive, file);
+
+  if (archive.zipPath) {
+    try {
+      const { stdout } = await execFileAsync("unzip", ["-p", archive.zipPath, unzipPattern(entry)], {
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return stdout;
+    } catch {
+      // unzip exits non-zero when the entry is missing
+      return null;
+    }
+  }
+
+  if (archive.dirPath) {
+    // Callers pass user-supplied paths; "../" must not climb out of src/
+    const root = resolve(archive.dirPath);
+    const path = resolve(root, entry);
+    if (!path.startsWith(root + sep)) {
+      return null;
+    }
+    try {
+      return await readFile(path, "utf-8");
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Lines `start`..`end` (1-based, inclusive) of a file, prefixed with line numbers
+ */
+export function numberedLines(content: string, start: number, end: number, highlight?: number): string {
+  const lines = content.split(/\r?\n/);
+  const first = Math.max(1, start);
+  const last = Math.min(lines.length, end);
+  const width = String(last).length;
+
+  const output: string[] = [];
+  for (let n = first; n <= last; n++) {
+    const marker = n === highlight ? ">" : " ";
+    output.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+  return output.join("\n");
+}
+
+/**
+ * Check which archive form a database has
+ */
+export async function locateArchive(dbPath: string, sourceLocationPrefix: string, zipPath?: string): Promise<SourceArchive> {
+  const candidates = zipPath ? [zipPath] : [];
+  candidates.push(join(dbPath, "src.zip"));
+  for (const candidate of candidates) {
+    try {
+      await stat(candidate);
+      return { zipPath: candidate, sourceLocationPrefix };
+    } catch {
+      continue;
+    }
+  }
+
+  try {
+    await stat(join(dbPath, "src"));
+    return { dirPath: join(dbPath, "src"), sourceLocationPrefix };
+  } catch {
+    throw new Error(`No source archive found in ${dbPath}`);
+  }
+}
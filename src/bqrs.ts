@@ -0,0 +1,157 @@
+import { readFile, unlink } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Runs a CodeQL CLI command, e.g. the server's runCodeQL
+ */
+export type CodeQLRunner = (args: string[]) => Promise<{ stdout: string; stderr: string }>;
+
+export interface ResultColumn {
+  name: string;
+  kind: string;
+}
+
+export interface ResultSetInfo {
+  name: string;
+  rows: number;
+  columns: ResultColumn[];
+  // Byte offsets of every `stepSize`-th row, from `bqrs info --paginate-rows`
+  offsets: number[];
+  stepSize: number;
+}
+
+export interface ResultPage {
+  resultSet: string;
+  columns: ResultColumn[];
+  totalRows: number;
+  offset: number;
+  rows: any[][];
+  nextOffset?: number;
+}
+
+export interface ResultCursor {
+  source: string;
+  resultSet: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * List the result sets in a BQRS file. Pagination offsets are computed for
+ * pages of `pageSize` rows so a page can be decoded without reading the
+ * rows before it.
+ */
+export async function bqrsInfo(run: CodeQLRunner, bqrsFile: string, pageSize: number = 100): Promise<ResultSetInfo[]> {
+  const { stdout } = await run([
+    "bqrs",
+    "info",
+    bqrsFile,
+    "--format=json",
+    `--paginate-rows=${pageSize}`,
+  ]);
+  const info = JSON.parse(stdout);
+
+  return (info.resultSets || []).map((rs: any) => ({
+    name: rs.name,
+    rows: rs.rows ?? 0,
+    columns: (rs.columns || []).map((c: any, i: number) => ({
+      name: c.name || `col${i}`,
+      kind: c.kind || "String",
+    })),
+    offsets: rs.pagination?.offsets || [],
+    stepSize: rs.pagination?.["step-size"] ?? rs.pagination?.stepSize ?? pageSize,
+  }));
+}
+
+/**
+ * Decode `limit` rows of a result set starting at row `offset`
+ */
+export async function decodePage(
+  run: CodeQLRunner,
+  bqrsFile: string,
+  info: ResultSetInfo,
+  offset: number,
+  limit: number,
+  tempDir: string
+): Promise<ResultPage> {
+  const page: ResultPage = {
+    resultSet: info.name,
+    columns: info.columns,
+    totalRows: info.rows,
+    offset,
+    rows: [],
+  };
+  if (offset >= info.rows || limit <= 0) {
+    return page;
+  }
+
+  // Start from the closest paginated offset at or before the requested row
+  const step = Math.min(Math.floor(offset / info.stepSize), info.offsets.length - 1);
+  const skip = step >= 0 ? offset - step * info.stepSize : offset;
+
+  const outputFile = join(tempDir, `decode-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+  const args = [
+    "bqrs",
+    "decode",
+    bqrsFile,
+    "--format=json",
+    "--entities=url,string",
+    `--result-set=${info.name}`,
+    `--rows=${skip + limit}`,
+    "--output",
+    outputFile,
+  ];
+  if (step >= 0) {
+    args.push(`--start-at=${info.offsets[step]}`);
+  }
+
+  try {
+    await run(args);
+    const decoded = JSON.parse(await readFile(outputFile, "utf-8"));
+    const tuples: any[][] = decoded[info.name]?.tuples || [];
+    page.rows = tuples.slice(skip, skip + limit).map(row => row.map(normalizeValue));
+  } finally {
+    await unlink(outputFile).catch(() => {});
+  }
+
+  if (offset + page.rows.length < info.rows) {
+    page.nextOffset = offset + page.rows.length;
+  }
+  return page;
+}
+
+/**
+ * Flatten decoded entity values into a label plus source location
+ */
+export function normalizeValue(value: any): any {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const entity: Record<string, any> = { label: value.label };
+  const url = value.url;
+  if (url && typeof url === "object") {
+    entity.file = url.uri;
+    entity.line = url.startLine;
+    entity.column = url.startColumn;
+  } else if (typeof url === "string") {
+    entity.url = url;
+  }
+  return entity;
+}
+
+export function encodeCursor(cursor: ResultCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): ResultCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (typeof parsed.source !== "string" || typeof parsed.resultSet !== "string") {
+      throw new Error("missing fields");
+    }
+    return parsed as ResultCursor;
+  } catch {
+    throw new Error("Invalid cursor. Use the cursor returned by the previous get_query_results call.");
+  }
+}
@@ -0,0 +1,281 @@
+import { createHash } from "crypto";
+import { copyFile, mkdir, readFile, readdir, rm, stat, unlink, utimes } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+const PACK_MANIFESTS = ["qlpack.yml", "codeql-pack.yml"];
+
+interface CacheEntry {
+  path: string;
+  size: number;
+  lastUsed: number;
+}
+
+/**
+ * Content-addressed store for BQRS/SARIF query output. Entries live in one
+ * directory per database so a recreated or upgraded database can be
+ * invalidated as a whole; the total size is kept under `maxBytes` by
+ * evicting the least recently used entries.
+ */
+export class ResultCache {
+  // Content hash of each query and library file, reused while its size and
+  // modification time are unchanged
+  private fileHashes = new Map<string, { stamp: string; hash: string }>();
+
+  constructor(private dir: string, private maxBytes: number) {}
+
+  /**
+   * Identity of a database on disk: its path, creation time and the
+   * contents of codeql-database.yml (which changes when it is re-finalized)
+   */
+  async databaseIdentity(dbPath: string, created: string): Promise<string> {
+    let metadata = "";
+    try {
+      metadata = await readFile(join(dbPath, "codeql-database.yml"), "utf-8");
+    } catch {
+      // Missing metadata still yields a stable key from path and timestamp
+    }
+    return createHash("sha256").update(`${dbPath}\n${created}\n${metadata}`).digest("hex");
+  }
+
+  /**
+   * Identity of a resolved query set: the content of each query plus the
+   * `.qll` libraries and lock file of the packs they belong to (or of their
+   * directory, outside a pack), so editing a query or a library it may
+   * import invalidates cached results
+   */
+  async queryIdentity(queryFiles: string[]): Promise<string> {
+    const files = new Set(queryFiles);
+    const dirs = new Map<string, boolean>();
+    for (const query of queryFiles) {
+      const pack = await packRoot(query);
+      dirs.set(pack ?? dirname(query), pack !== null);
+    }
+    for (const [dir, recursive] of dirs) {
+      for (const file of await libraryFiles(dir, recursive)) {
+        files.add(file);
+      }
+    }
+
+    const hash = createHash("sha256");
+    for (const file of [...files].sort()) {
+      hash.update(`${file}\n${await this.fileHash(file)}\n`);
+    }
+    return hash.digest("hex");
+  }
+
+  private async fileHash(file: string): Promise<string> {
+    const info = await stat(file).catch(() => null);
+    const stamp = info ? `${info.size}:${info.mtimeMs}` : "missing";
+    const known = this.fileHashes.get(file);
+    if (known?.stamp === stamp) {
+      return known.hash;
+    }
+    const hash = createHash("sha256").update(await readFile(file).catch(() => "")).digest("hex");
+    this.fileHashes.set(file, { stamp, hash });
+    return hash;
+  }
+
+  /**
+   * Cache key for one query execution
+   */
+  key(parts: Record<string, string>): string {
+    const canonical = Object.keys(parts).sort().map(k => `${k}=${parts[k]}`).join("\n");
+    return createHash("sha256").update(canonical).digest("hex");
+  }
+
+  /**
+   * Path of a cached entry, or null on a miss. Hits are marked as used.
+   */
+  async get(databaseName: string, key: string, ext: string): Promise<string | null> {
+    const path = this.entryPath(databaseName, key, ext);
+    try {
+      await stat(path);
+    } catch {
+      return null;
+    }
+    const now = new Date();
+    await utimes(path, now, now).catch(() => {});
+    return path;
+  }
+
+  /**
+   * Copy a freshly produced result file into the cache
+   */
+  async put(databaseName: string, key: string, ext: string, sourceFile: string): Promise<void> {
+    await mkdir(join(this.dir, this.safeName(databaseName)), { recursive: true });
+    await copyFile(sourceFile, this.entryPath(databaseName, key, ext));
+    await this.prune(this.maxBytes);
+  }
+
+  /**
+   * Remove all entries, or only those of one database
+   */
+  async clear(databaseName?: string): Promise<{ entries: number; bytes: number }> {
+    const entries = (await this.entries()).filter(entry =>
+      !databaseName || entry.path.startsWith(join(this.dir, this.safeName(databaseName)) + "/")
+    );
+    const target = databaseName ? join(this.dir, this.safeName(databaseName)) : this.dir;
+    await rm(target, { recursive: true, force: true });
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    };
+  }
+
+  /**
+   * Evict least recently used entries until the cache fits in `maxBytes`
+   */
+  async prune(maxBytes: number): Promise<{ entries: number; bytes: number }> {
+    const entries = (await this.entries()).sort((a, b) => b.lastUsed - a.lastUsed);
+    let total = 0;
+    let removed = 0;
+    let freed = 0;
+
+    for (const entry of entries) {
+      if (total + entry.size <= maxBytes) {
+        total += entry.size;
+        continue;
+      }
+      await unlink(entry.path).catch(() => {});
+      removed++;
+      freed += entry.size;
+    }
+
+    return { entries: removed, bytes: freed };
+  }
+
+  async stats(): Promise<{ entries: number; bytes: number; maxBytes: number }> {
+    const entries = await this.entries();
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  private async entries(): Promise<CacheEntry[]> {
+    const result: CacheEntry[] = [];
+    let databases: string[];
+    try {
+      databases = await readdir(this.dir);
+    } catch {
+      return result;
+    }
+
+    for (const database of databases) {
+      let files: string[];
+      try {
+        files = await readdir(join(this.dir, database));
+      } catch {
+        continue;
+      }
+      for (const file of files) {
+        const path = join(this.dir, database, file);
+        try {
+          const info = await stat(path);
+          result.push({ path, size: info.size, lastUsed: info.mtimeMs });
+        } catch {
+          // Removed concurrently
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private entryPath(databaseName: string, key: string, ext: string): string {
+    return join(this.dir, this.safeName(databaseName), `${key}.${ext}`);
+  }
+
+  private safeName(databaseName: string): string {
+    return databaseName.replace(/[^\w.-]/g, "_");
+  }
+}
+
+/**
+ * Nearest directory above `queryFile` with a pack manifest, or null when
+ * the query is not part of a pack
+ */
+async function packRoot(queryFile: string): Promise<string | null> {
+  let dir = dirname(queryFile);
+  while (true) {
+    for (const manifest of PACK_MANIFESTS) {
+      if (await stat(join(dir, manifest)).then(() => true, () => false)) {
+        return dir;
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * `.qll` files and the lock file in `dir`, and with `recursive` in its
+ * subdirectories too, skipping hidden ones such as `.codeql`
+ */
+async function libraryFiles(dir: string, recursive: boolean): Promise<string[]> {
+  const result: string[] = [];
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return result;
+  }
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && !entry.name.startsWith(".")) {
+        result.push(...await libraryFiles(path, true));
+      }
+    } else if (entry.name.endsWith(".qll") || entry.name === "codeql-pack.lock.yml") {
+      result.push(path);
+    }
+  }
+  return result;
+}
+
+/**
+ * Cheap stand-in for re-running `codeql resolve queries` on `target`: the
+ * modification times of the target (every directory below it, for a query
+ * directory) and of the packs in the package cache, which change when a
+ * suite is edited, queries are added or removed, or packs are downloaded
+ */
+export async function queryTargetStamp(target: string, packagesDir = join(homedir(), ".codeql", "packages")): Promise<string> {
+  const stamps = await treeStamps(target);
+  for (const scope of await subdirectories(packagesDir)) {
+    for (const pack of await subdirectories(scope)) {
+      stamps.push(...await treeStamps(pack, false));
+    }
+  }
+  return stamps.join("\n");
+}
+
+async function treeStamps(path: string, recursive = true): Promise<string[]> {
+  const info = await stat(path).catch(() => null);
+  if (!info) {
+    return [];
+  }
+  const stamps = [`${path}:${info.mtimeMs}`];
+  if (info.isDirectory() && recursive) {
+    for (const dir of await subdirectories(path)) {
+      stamps.push(...await treeStamps(dir));
+    }
+  }
+  return stamps;
+}
+
+async function subdirectories(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+      .map(entry => join(dir, entry.name))
+      .sort();
+  } catch {
+    return [];
+  }
+}
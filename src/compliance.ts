@@ -0,0 +1,230 @@
+import { cwesFromTags } from "./rules.js";
+import { Finding, SarifRule } from "./sarif.js";
+
+/**
+ * CWE and OWASP Top 10 (2021) summaries of security findings
+ */
+
+export interface OwaspCategory {
+  id: string;
+  name: string;
+  cwes: number[];
+}
+
+// CWEs mapped to each OWASP Top 10 2021 category, from owasp.org/Top10
+export const OWASP_2021: OwaspCategory[] = [
+  {
+    id: "A01:2021",
+    name: "Broken Access Control",
+    cwes: [22, 23, 35, 59, 200, 201, 219, 264, 275, 276, 284, 285, 352, 359, 377, 402, 425, 441, 497, 538, 540, 548, 552, 566, 601, 639, 651, 668, 706, 862, 863, 913, 922, 1275],
+  },
+  {
+    id: "A02:2021",
+    name: "Cryptographic Failures",
+    cwes: [261, 296, 310, 319, 321, 322, 323, 324, 325, 326, 327, 328, 329, 330, 331, 335, 336, 337, 338, 340, 347, 523, 720, 757, 759, 760, 780, 818, 916],
+  },
+  {
+    id: "A03:2021",
+    name: "Injection",
+    cwes: [20, 74, 75, 77, 78, 79, 80, 83, 87, 88, 89, 90, 91, 93, 94, 95, 96, 97, 98, 99, 100, 113, 116, 138, 184, 470, 471, 564, 610, 643, 644, 652, 917],
+  },
+  {
+    id: "A04:2021",
+    name: "Insecure Design",
+    cwes: [73, 183, 209, 213, 235, 256, 257, 266, 269, 280, 311, 312, 313, 316, 419, 430, 434, 444, 451, 472, 501, 522, 525, 539, 579, 598, 602, 642, 646, 650, 653, 656, 657, 799, 807, 840, 841, 927, 1021, 1173],
+  },
+  {
+    id: "A05:2021",
+    name: "Security Misconfiguration",
+    cwes: [2, 11, 13, 15, 16, 260, 315, 520, 526, 537, 541, 547, 611, 614, 756, 776, 942, 1004, 1032, 1174],
+  },
+  {
+    id: "A06:2021",
+    name: "Vulnerable and Outdated Components",
+    cwes: [937, 1035, 1104],
+  },
+  {
+    id: "A07:2021",
+    name: "Identification and Authentication Failures",
+    cwes: [255, 259, 287, 288, 290, 294, 295, 297, 300, 302, 304, 306, 307, 346, 384, 521, 613, 620, 640, 798, 940, 1216],
+  },
+  {
+    id: "A08:2021",
+    name: "Software and Data Integrity Failures",
+    cwes: [345, 353, 426, 494, 502, 565, 784, 829, 830, 915],
+  },
+  {
+    id: "A09:2021",
+    name: "Security Logging and Monitoring Failures",
+    cwes: [117, 223, 532, 778],
+  },
+  {
+    id: "A10:2021",
+    name: "Server-Side Request Forgery (SSRF)",
+    cwes: [918],
+  },
+];
+
+export const SEVERITIES = ["critical", "high", "medium", "low"];
+
+/**
+ * GitHub code scanning's severity buckets for security-severity scores;
+ * findings without a score are bucketed by SARIF level
+ */
+export function findingSeverity(finding: Finding): string {
+  const score = finding.securitySeverity;
+  if (score !== undefined) {
+    return score >= 9 ? "critical" : score >= 7 ? "high" : score >= 4 ? "medium" : "low";
+  }
+  return finding.level === "error" ? "high" : finding.level === "warning" ? "medium" : "low";
+}
+
+/**
+ * OWASP categories a CWE id ("CWE-89") belongs to
+ */
+export function owaspCategories(cwe: string): OwaspCategory[] {
+  const number = parseInt(cwe.replace(/^CWE-/i, ""));
+  return OWASP_2021.filter(category => category.cwes.includes(number));
+}
+
+export interface ComplianceCount {
+  total: number;
+  bySeverity: Record<string, number>;
+  rules: string[];
+}
+
+export interface CweEntry extends ComplianceCount {
+  cwe: string;
+  owasp: string[];
+}
+
+export interface OwaspEntry extends ComplianceCount {
+  id: string;
+  name: string;
+  cwes: string[];
+  // "findings", "no findings" (rules for it ran clean) or "not covered"
+  status: string;
+  rulesRun: string[];
+}
+
+export interface ComplianceReport {
+  title: string;
+  totalFindings: number;
+  unmappedFindings: number;
+  rulesRun: number;
+  cwes: CweEntry[];
+  owasp: OwaspEntry[];
+}
+
+function emptyCount(): ComplianceCount {
+  return { total: 0, bySeverity: Object.fromEntries(SEVERITIES.map(s => [s, 0])), rules: [] };
+}
+
+function addFinding(count: ComplianceCount, finding: Finding, severity: string): void {
+  count.total++;
+  count.bySeverity[severity]++;
+  if (!count.rules.includes(finding.rule)) {
+    count.rules.push(finding.rule);
+  }
+}
+
+/**
+ * Count findings per CWE and OWASP category. `rules` are the rules that
+ * ran, so categories they cover without findings can be told apart from
+ * categories no rule checked.
+ */
+export function buildComplianceReport(title: string, findings: Finding[], rules: SarifRule[]): ComplianceReport {
+  const cwes = new Map<string, CweEntry>();
+  const owasp = new Map<string, OwaspEntry>(OWASP_2021.map(category => [category.id, {
+    ...emptyCount(),
+    id: category.id,
+    name: category.name,
+    cwes: [],
+    status: "not covered",
+    rulesRun: [],
+  }]));
+  let unmappedFindings = 0;
+
+  for (const rule of rules) {
+    for (const cwe of cwesFromTags(rule.tags)) {
+      for (const category of owaspCategories(cwe)) {
+        const entry = owasp.get(category.id)!;
+        if (!entry.rulesRun.includes(rule.id)) {
+          entry.rulesRun.push(rule.id);
+        }
+      }
+    }
+  }
+
+  for (const finding of findings) {
+    const findingCwes = cwesFromTags(finding.tags);
+    if (findingCwes.length === 0) {
+      unmappedFindings++;
+      continue;
+    }
+
+    const severity = findingSeverity(finding);
+    const categories = new Set<string>();
+    for (const cwe of findingCwes) {
+      const matched = owaspCategories(cwe);
+      const entry = cwes.get(cwe) || { ...emptyCount(), cwe, owasp: matched.map(c => c.id) };
+      addFinding(entry, finding, severity);
+      cwes.set(cwe, entry);
+
+      for (const category of matched) {
+        const owaspEntry = owasp.get(category.id)!;
+        if (!owaspEntry.cwes.includes(cwe)) {
+          owaspEntry.cwes.push(cwe);
+        }
+        categories.add(category.id);
+      }
+    }
+    // A finding tagged with several CWEs of one category counts once there
+    for (const id of categories) {
+      addFinding(owasp.get(id)!, finding, severity);
+    }
+  }
+
+  for (const entry of owasp.values()) {
+    entry.status = entry.total > 0 ? "findings" : entry.rulesRun.length > 0 ? "no findings" : "not covered";
+  }
+
+  return {
+    title,
+    totalFindings: findings.length,
+    unmappedFindings,
+    rulesRun: rules.length,
+    cwes: Array.from(cwes.values()).sort((a, b) => b.total - a.total || a.cwe.localeCompare(b.cwe)),
+    owasp: Array.from(owasp.values()),
+  };
+}
+
+function severityCells(count: ComplianceCount): string {
+  return SEVERITIES.map(s => count.bySeverity[s]).join(" | ");
+}
+
+export function complianceMarkdown(report: ComplianceReport): string {
+  let content = `# ${report.title}\n\n`;
+  content += `${report.totalFindings} finding(s) from ${report.rulesRun} rule(s)`;
+  content += report.unmappedFindings > 0 ? `; ${report.unmappedFindings} without a CWE tag\n\n` : "\n\n";
+
+  content += `## OWASP Top 10 (2021)\n\n`;
+  content += `| Category | Status | Total | ${SEVERITIES.join(" | ")} | CWEs |\n`;
+  content += `|----------|--------|-------|${SEVERITIES.map(() => "---").join("|")}|------|\n`;
+  for (const entry of report.owasp) {
+    content += `| ${entry.id} ${entry.name} | ${entry.status} | ${entry.total} | ${severityCells(entry)} | ${entry.cwes.join(", ")} |\n`;
+  }
+  content += "\n";
+
+  content += `## CWE\n\n`;
+  if (report.cwes.length === 0) {
+    content += "_None_\n";
+    return content;
+  }
+  content += `| CWE | OWASP | Total | ${SEVERITIES.join(" | ")} | Rules |\n`;
+  content += `|-----|-------|-------|${SEVERITIES.map(() => "---").join("|")}|-------|\n`;
+  for (const entry of report.cwes) {
+    content += `| ${entry.cwe} | ${entry.owasp.join(", ")} | ${entry.total} | ${severityCells(entry)} | ${entry.rules.join(", ")} |\n`;
+  }
+  return content;
+}
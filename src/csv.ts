@@ -0,0 +1,74 @@
+/**
+ * Streaming CSV parsing for `bqrs decode --format=csv` output
+ */
+
+/**
+ * Parse RFC 4180 CSV from a stream of text chunks, yielding one row at a
+ * time. Handles quoted fields containing commas, doubled quotes and line
+ * breaks, and both LF and CRLF line endings.
+ */
+export async function* parseCsv(input: AsyncIterable<string>): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // A quote inside a quoted field: either an escaped quote or the closing one
+  let quotePending = false;
+  let rowStarted = false;
+
+  for await (const chunk of input) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // The field is closed; handle this character as unquoted below
+        } else if (char === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && field === "") {
+        inQuotes = true;
+        rowStarted = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+        rowStarted = true;
+      } else if (char === "\n") {
+        row.push(field);
+        yield row;
+        row = [];
+        field = "";
+        rowStarted = false;
+      } else if (char !== "\r") {
+        field += char;
+        rowStarted = true;
+      }
+    }
+  }
+
+  if (rowStarted || field !== "") {
+    row.push(field);
+    yield row;
+  }
+}
+
+/**
+ * Encode one row for `COPY ... WITH (FORMAT csv)`: null becomes an
+ * unquoted empty field (SQL NULL), every other value is quoted
+ */
+export function toCopyCsvLine(values: (string | number | null)[]): string {
+  return values
+    .map(value => value === null ? "" : `"${String(value).replace(/"/g, '""')}"`)
+    .join(",") + "\n";
+}
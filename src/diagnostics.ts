@@ -0,0 +1,79 @@
+/**
+ * Parsing of QL compiler diagnostics printed by the CodeQL CLI
+ */
+
+export interface CodeQLDiagnostic {
+  severity: string;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+// e.g. "ERROR: could not resolve type Foo (/tmp/q.ql:5,6-9)"
+//   or "WARNING: unused variable (/tmp/q.ql:3,1-4,12)"
+const DIAGNOSTIC_LINE = /^(ERROR|WARNING|INFO|NOTE|ALERT):\s*(.*?)\s*\((.+?):(\d+),(\d+)-(?:(\d+),)?(\d+)\)\s*$/;
+const PLAIN_ERROR_LINE = /^(?:A fatal error occurred|ERROR):\s*(.*)$/;
+
+/**
+ * Thrown by runCodeQL when the CLI exits with a non-zero code
+ */
+export class CodeQLError extends Error {
+  constructor(
+    message: string,
+    public exitCode: number | null,
+    public diagnostics: CodeQLDiagnostic[]
+  ) {
+    super(message);
+    this.name = "CodeQLError";
+  }
+}
+
+/**
+ * Extract compiler diagnostics from CLI output. Errors without a source
+ * position (e.g. "A fatal error occurred: ...") are kept without line info.
+ */
+export function parseDiagnostics(output: string): CodeQLDiagnostic[] {
+  const diagnostics: CodeQLDiagnostic[] = [];
+
+  for (const rawLine of output.split("\n")) {
+    const line = rawLine.trim();
+
+    const match = line.match(DIAGNOSTIC_LINE);
+    if (match) {
+      const [, severity, message, file, startLine, startColumn, endLine, endColumn] = match;
+      diagnostics.push({
+        severity: severity.toLowerCase(),
+        message,
+        file,
+        line: parseInt(startLine),
+        column: parseInt(startColumn),
+        endLine: endLine ? parseInt(endLine) : parseInt(startLine),
+        endColumn: parseInt(endColumn),
+      });
+      continue;
+    }
+
+    const plain = line.match(PLAIN_ERROR_LINE);
+    if (plain) {
+      diagnostics.push({ severity: "error", message: plain[1] });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * One diagnostic per line, e.g. "error at query.ql:5:6: could not resolve type Foo"
+ */
+export function formatDiagnostics(diagnostics: CodeQLDiagnostic[]): string {
+  return diagnostics
+    .map(d => {
+      const file = d.file ? `${d.file}:` : "";
+      const position = d.line !== undefined ? ` at ${file}${d.line}:${d.column}` : "";
+      return `${d.severity}${position}: ${d.message}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,285 @@
+import { createHash } from "crypto";
+
+/**
+ * Writers for exporting findings to files
+ */
+
+export interface ExportRow {
+  rule: string;
+  message: string;
+  level: string;
+  file: string;
+  line: number | string;
+  status?: string;
+  triage?: string;
+  fingerprint?: string;
+  // Source-to-sink steps of path-problem findings, one list per path
+  paths?: ExportPathStep[][];
+}
+
+export interface ExportPathStep {
+  file?: string;
+  line?: number;
+  column?: number;
+  message?: string;
+}
+
+export interface ExportSection {
+  heading: string;
+  rows: ExportRow[];
+}
+
+function csvField(value: unknown): string {
+  return `"${String(value ?? "").replace(/"/g, '""')}"`;
+}
+
+function xmlEscape(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "");
+}
+
+function markdownCell(value: unknown): string {
+  return String(value ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * CSV with quoted, escaped fields. Status and Triage columns are added
+ * when rows carry them.
+ */
+export function toCsv(rows: ExportRow[]): string {
+  const withStatus = rows.some(row => row.status !== undefined);
+  const withTriage = rows.some(row => row.triage !== undefined);
+  const header = [
+    ...(withStatus ? ["Status"] : []),
+    "Rule", "Message", "Level", "File", "Line",
+    ...(withTriage ? ["Triage"] : []),
+  ];
+
+  let content = header.join(",") + "\n";
+  for (const row of rows) {
+    const fields: unknown[] = [row.rule, row.message, row.level, row.file, row.line];
+    if (withStatus) {
+      fields.unshift(row.status);
+    }
+    if (withTriage) {
+      fields.push(row.triage);
+    }
+    content += fields.map(csvField).join(",") + "\n";
+  }
+  return content;
+}
+
+export function toJson(rows: ExportRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
+
+function stepLocation(step: ExportPathStep): string {
+  return `${step.file || "(unknown)"}${step.line ? `:${step.line}` : ""}${step.column ? `:${step.column}` : ""}`;
+}
+
+/**
+ * Markdown document with one table per section. Findings with data-flow
+ * paths get a numbered step list after their section's table.
+ */
+export function toMarkdown(title: string, sections: ExportSection[]): string {
+  let content = `# ${title}\n\n`;
+  for (const section of sections) {
+    content += `## ${section.heading}\n\n`;
+    if (section.rows.length === 0) {
+      content += "_None_\n\n";
+      continue;
+    }
+    content += "| Rule | Message | Level | Location |\n";
+    content += "|------|---------|-------|----------|\n";
+    for (const row of section.rows) {
+      const location = row.line ? `${row.file}:${row.line}` : row.file;
+      const message = row.triage ? `${row.message} _(${row.triage})_` : row.message;
+      content += `| ${markdownCell(row.rule)} | ${markdownCell(message)} | ${markdownCell(row.level)} | ${markdownCell(location)} |\n`;
+    }
+    content += "\n";
+
+    const withPaths = section.rows.filter(row => row.paths && row.paths.length > 0);
+    if (withPaths.length > 0) {
+      content += `### Data-flow paths\n\n`;
+      for (const row of withPaths) {
+        const location = row.line ? `${row.file}:${row.line}` : row.file;
+        content += `**${markdownCell(row.rule)}** at \`${location}\`\n\n`;
+        row.paths!.forEach((steps, index) => {
+          if (row.paths!.length > 1) {
+            content += `Path ${index + 1}:\n\n`;
+          }
+          steps.forEach((step, n) => {
+            content += `${n + 1}. \`${stepLocation(step)}\`${step.message ? ` - ${markdownCell(step.message)}` : ""}\n`;
+          });
+          content += "\n";
+        });
+      }
+    }
+  }
+  return content;
+}
+
+// SARIF levels in decreasing order of importance, for grouping reports
+const LEVEL_ORDER = ["error", "warning", "recommendation", "note", "none"];
+
+// GitLab Code Quality and CodeClimate severities
+const QUALITY_SEVERITY: Record<string, string> = {
+  error: "critical",
+  warning: "major",
+  recommendation: "minor",
+  note: "minor",
+  none: "info",
+};
+
+function rowLocation(row: ExportRow): string {
+  return row.line ? `${row.file}:${row.line}` : row.file;
+}
+
+function lineNumber(row: ExportRow): number {
+  const line = typeof row.line === "number" ? row.line : parseInt(row.line);
+  return isNaN(line) ? 1 : line;
+}
+
+/**
+ * Stable identity for code quality reports: the SARIF fingerprint when
+ * available, otherwise a hash of rule, file and message
+ */
+function issueFingerprint(row: ExportRow): string {
+  return row.fingerprint
+    ? createHash("md5").update(row.fingerprint).digest("hex")
+    : createHash("md5").update(`${row.rule}\n${row.file}\n${row.message}`).digest("hex");
+}
+
+/**
+ * JUnit XML with one testcase per rule. Rules with findings fail with one
+ * line per finding; `rules` lists every rule that ran so the ones without
+ * findings are reported as passing.
+ */
+export function toJUnit(rows: ExportRow[], rules: string[] = []): string {
+  const byRule = new Map<string, ExportRow[]>();
+  for (const rule of rules) {
+    byRule.set(rule, []);
+  }
+  for (const row of rows) {
+    byRule.set(row.rule, [...(byRule.get(row.rule) || []), row]);
+  }
+
+  const failures = Array.from(byRule.values()).filter(r => r.length > 0).length;
+  let content = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  content += `<testsuites name="CodeQL" tests="${byRule.size}" failures="${failures}">\n`;
+  content += `  <testsuite name="CodeQL" tests="${byRule.size}" failures="${failures}" errors="0" skipped="0">\n`;
+
+  for (const [rule, ruleRows] of Array.from(byRule.entries()).sort((a, b) => a[0].localeCompare(b[0]))) {
+    content += `    <testcase classname="codeql" name="${xmlEscape(rule)}"`;
+    if (ruleRows.length === 0) {
+      content += ` />\n`;
+      continue;
+    }
+    const details = ruleRows.map(row => `[${row.level}] ${rowLocation(row)} - ${row.message}`).join("\n");
+    content += `>\n`;
+    content += `      <failure message="${xmlEscape(`${ruleRows.length} finding(s)`)}" type="${xmlEscape(ruleRows[0].level)}">${xmlEscape(details)}</failure>\n`;
+    content += `    </testcase>\n`;
+  }
+
+  content += `  </testsuite>\n</testsuites>\n`;
+  return content;
+}
+
+/**
+ * GitLab Code Quality report (a JSON array of issues)
+ */
+export function toGitLabCodeQuality(rows: ExportRow[]): string {
+  return JSON.stringify(rows.map(row => ({
+    description: row.message,
+    check_name: row.rule,
+    fingerprint: issueFingerprint(row),
+    severity: QUALITY_SEVERITY[row.level] || "info",
+    location: {
+      path: row.file,
+      lines: { begin: lineNumber(row) },
+    },
+  })), null, 2);
+}
+
+/**
+ * CodeClimate engine output: one issue object per finding, each followed
+ * by a NUL character as the CodeClimate spec requires
+ */
+export function toCodeClimate(rows: ExportRow[]): string {
+  return rows.map(row => JSON.stringify({
+    type: "issue",
+    check_name: row.rule,
+    description: row.message,
+    categories: ["Security"],
+    location: {
+      path: row.file,
+      lines: { begin: lineNumber(row), end: lineNumber(row) },
+    },
+    severity: QUALITY_SEVERITY[row.level] || "info",
+    fingerprint: issueFingerprint(row),
+  }) + "\0").join("");
+}
+
+/**
+ * Self-contained HTML report grouped by level, then by file
+ */
+export function toHtml(title: string, rows: ExportRow[]): string {
+  const byLevel = new Map<string, Map<string, ExportRow[]>>();
+  for (const row of rows) {
+    const files = byLevel.get(row.level) || new Map<string, ExportRow[]>();
+    files.set(row.file, [...(files.get(row.file) || []), row]);
+    byLevel.set(row.level, files);
+  }
+  const rank = (level: string) => {
+    const index = LEVEL_ORDER.indexOf(level);
+    return index === -1 ? LEVEL_ORDER.length : index;
+  };
+  const levels = Array.from(byLevel.keys()).sort((a, b) => rank(a) - rank(b));
+
+  let body = `<h1>${xmlEscape(title)}</h1>\n`;
+  body += `<p>${rows.length} finding(s): ${levels.map(level =>
+    `${Array.from(byLevel.get(level)!.values()).flat().length} ${xmlEscape(level)}`).join(", ") || "none"}</p>\n`;
+
+  for (const level of levels) {
+    const files = byLevel.get(level)!;
+    body += `<section class="level-${xmlEscape(level)}">\n<h2>${xmlEscape(level)}</h2>\n`;
+    for (const file of Array.from(files.keys()).sort()) {
+      body += `<details open>\n<summary>${xmlEscape(file || "(no location)")} (${files.get(file)!.length})</summary>\n`;
+      body += `<table>\n<tr><th>Line</th><th>Rule</th><th>Message</th></tr>\n`;
+      for (const row of files.get(file)!) {
+        const triage = row.triage ? ` <em>(${xmlEscape(row.triage)})</em>` : "";
+        body += `<tr><td>${xmlEscape(row.line)}</td><td><code>${xmlEscape(row.rule)}</code></td><td>${xmlEscape(row.message)}${triage}</td></tr>\n`;
+      }
+      body += `</table>\n</details>\n`;
+    }
+    body += `</section>\n`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${xmlEscape(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; width: 100%; margin: 0.5em 0 1em; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f5f5f5; }
+summary { cursor: pointer; font-family: monospace; }
+section { border-left: 4px solid #999; padding-left: 1em; margin-bottom: 1.5em; }
+.level-error { border-color: #d73a49; }
+.level-warning { border-color: #e36209; }
+.level-recommendation, .level-note { border-color: #0366d6; }
+</style>
+</head>
+<body>
+${body}</body>
+</html>
+`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Convert a path glob to a regular expression. Supports `**` (any number of
+ * directories), `*` (within one path segment), `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToRegexSource(glob)}$`);
+}
+
+/**
+ * Regex source for a glob, without anchors; also valid as a PostgreSQL
+ * regular expression
+ */
+export function globToRegexSource(glob: string): string {
+  let source = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else if ("\\^$.|+()[]{}".includes(char)) {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+  }
+
+  return source;
+}
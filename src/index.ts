@@ -2,19 +2,37 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ServerNotification,
+  ServerRequest,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { execFile, spawn } from "child_process";
+import { execFile, spawn, ChildProcess } from "child_process";
 import { promisify } from "util";
-import { mkdir, readFile, writeFile, access, unlink } from "fs/promises";
-import { join, dirname } from "path";
+import { mkdir, readFile, writeFile, access, unlink, rename, readdir, stat, copyFile } from "fs/promises";
+import { createReadStream } from "fs";
+import { join, dirname, basename } from "path";
 import { homedir } from "os";
 import { execSync } from "child_process";
 import { fileURLToPath } from "url";
 import * as postgres from "./postgres.js";
+import { JobManager, JobContext, JobType, Job } from "./jobs.js";
+import { Finding, collectRules, parseFindings, filterFindings, summarizeFindings, diffFindings } from "./sarif.js";
+import { ExportRow, toCsv, toJson, toMarkdown, toJUnit, toGitLabCodeQuality, toCodeClimate, toHtml } from "./export.js";
+import { CodeQLRunner, bqrsInfo, decodePage, encodeCursor, decodeCursor } from "./bqrs.js";
+import { CodeQLError, CodeQLDiagnostic, parseDiagnostics, formatDiagnostics } from "./diagnostics.js";
+import { ResultCache, queryTargetStamp } from "./cache.js";
+import { globToRegExp, globToRegexSource } from "./glob.js";
+import { GraphFileChanges, SourceArchive, archiveFileHashes, compareFileHashes, listArchiveFiles, locateArchive, numberedLines, readArchiveFile } from "./archive.js";
+import { TaintSpec, TAINT_LANGUAGES, generateTaintQuery } from "./taint.js";
+import { ModelPackStore, EXTENSIBLES, modelColumns, validateModels } from "./models.js";
+import { RuleInfo, filterRules, readRuleInfo, ruleLanguage } from "./rules.js";
+import { buildComplianceReport, complianceMarkdown } from "./compliance.js";
+import { parseCsv } from "./csv.js";
+import { TriageStore, TriageStatus, SUPPRESSING_STATUSES, TRIAGE_STATUSES } from "./triage.js";
 
 // Get the directory of the current module
 const __filename = fileURLToPath(import.meta.url);
@@ -58,6 +76,10 @@ function findCodeQL(): string {
 const CODEQL_DB_DIR = join(homedir(), ".codeql-mcp", "databases");
 const CODEQL_PATH = findCodeQL();
 const CODEQL_HOME = process.env.CODEQL_HOME || join(homedir(), "codeql-home");
+const RESULTS_DIR = join(CODEQL_DB_DIR, "results");
+const MODELS_DIR = join(homedir(), ".codeql-mcp", "models");
+const MAX_STORED_RESULTS = 50;
+const CACHE_MAX_BYTES = parseInt(process.env.CODEQL_MCP_CACHE_MAX_MB || "1024") * 1024 * 1024;
 
 interface CodeQLDatabase {
   name: string;
@@ -66,9 +88,127 @@ interface CodeQLDatabase {
   created: string;
 }
 
+interface RunOptions {
+  signal?: AbortSignal;
+  onOutput?: (text: string) => void;
+  onProgress?: (progress: number, total?: number, message?: string) => void;
+  setPhase?: (phase: string) => void;
+}
+
+// CodeQL prints evaluation progress as "[3/25] Loaded ..." or "[3/25 eval 1.2s] Evaluation done ..."
+const PROGRESS_LINE = /^\[(\d+)\/(\d+)[^\]]*\]\s*(.*)$/;
+
+/**
+ * Terminate a CodeQL process together with the extractors and query
+ * servers it spawned. The process is started in its own process group,
+ * so signalling the negative pid reaches every descendant.
+ */
+function killProcessTree(proc: ChildProcess) {
+  if (proc.pid === undefined || proc.exitCode !== null) {
+    return;
+  }
+  const pid = proc.pid;
+
+  try {
+    process.kill(-pid, "SIGTERM");
+  } catch {
+    proc.kill("SIGTERM");
+  }
+
+  // Escalate if CodeQL ignores SIGTERM
+  const timer = setTimeout(() => {
+    try {
+      process.kill(-pid, "SIGKILL");
+    } catch {
+      proc.kill("SIGKILL");
+    }
+  }, 5000);
+  timer.unref();
+  proc.once("close", () => clearTimeout(timer));
+}
+
+/**
+ * Map a database language to the language name CodeQL uses for its packs
+ * (codeql/<lang>-all, codeql/<lang>-queries)
+ */
+function codeqlLanguage(language: string): string {
+  if (language === "typescript") {
+    return "javascript";
+  }
+  if (language === "c") {
+    return "cpp";
+  }
+  return language;
+}
+
+/**
+ * Distinguish inline QL source from a query/suite path or pack reference
+ */
+function isInlineQuery(query: string): boolean {
+  const trimmed = query.trim();
+  if (/\.qls?$/.test(trimmed) && !trimmed.includes("\n")) {
+    return false;
+  }
+  return /\bselect\b/.test(trimmed);
+}
+
+/**
+ * Resolve a security suite name to the standard query suite for a language
+ */
+function securitySuite(language: string, suite: string): string {
+  const lang = codeqlLanguage(language);
+  const suiteName = suite === "default" ? "code-scanning" : suite;
+  return `codeql/${lang}-queries:codeql-suites/${lang}-${suiteName}.qls`;
+}
+
+/**
+ * Remove temporary query/result files, ignoring ones that were never written
+ */
+async function removeTempFiles(paths: string[]) {
+  await Promise.allSettled(paths.map(path => unlink(path)));
+}
+
+/**
+ * Summary of an incremental graph update: the files replaced and the rows
+ * deleted and inserted per table
+ */
+function formatGraphUpdate(changes: GraphFileChanges, update: postgres.GraphUpdateStats): string {
+  const files = [
+    ...changes.added.map(file => `  A ${file}`),
+    ...changes.modified.map(file => `  M ${file}`),
+    ...changes.removed.map(file => `  D ${file}`),
+  ];
+  const shown = files.slice(0, 50);
+  const tables: [string, string][] = [
+    ["functions", "Functions"],
+    ["classes", "Classes"],
+    ["function_calls", "Function calls"],
+    ["class_methods", "Class methods"],
+    ["variables", "Variables"],
+    ["variable_usages", "Variable usages"],
+  ];
+
+  return `Files: ${changes.added.length} added, ${changes.modified.length} modified, ${changes.removed.length} removed\n` +
+    `${shown.join("\n")}${files.length > shown.length ? `\n  ... and ${files.length - shown.length} more` : ""}\n\n` +
+    `Rows (deleted → inserted):\n` +
+    tables.map(([table, label]) => `  ${label}: ${update.deleted[table] || 0} → ${update.inserted[table] || 0}`).join("\n") +
+    `\n\nRefreshed in unchanged files: ${update.refreshedCallSites} call site(s), ${update.refreshedSubclasses} subclass(es), ` +
+    `${update.refreshedClassMethods} class method(s), ${update.refreshedUsageSites} variable usage line(s)\n` +
+    `References re-resolved: ${update.resolved}`;
+}
+
 class CodeQLMCPServer {
   private server: Server;
   private databases: Map<string, CodeQLDatabase> = new Map();
+  private jobs = new JobManager(join(CODEQL_DB_DIR, "jobs.json"));
+  private cache = new ResultCache(join(CODEQL_DB_DIR, ".cache"), CACHE_MAX_BYTES);
+  private cliVersion: string | null = null;
+  private triage = new TriageStore(join(CODEQL_DB_DIR, "triage.json"));
+  private models = new ModelPackStore(MODELS_DIR);
+  // Rule metadata per resolved suite; suites only change with the installed packs
+  private ruleCatalog: Map<string, RuleInfo[]> = new Map();
+  // `codeql resolve queries` output per query target, with the stamp it was resolved at
+  private resolvedQueries: Map<string, { stamp: string; files: string[] }> = new Map();
 
   constructor() {
     this.server = new Server(
@@ -100,6 +240,9 @@ class CodeQLMCPServer {
       } catch {
         // No existing index, start fresh
       }
+
+      await this.jobs.load();
+      await this.triage.load();
     } catch (error) {
       console.error("Error loading databases:", error);
     }
@@ -120,43 +263,527 @@ class CodeQLMCPServer {
     }
   }
 
-  private async runCodeQL(args: string[]): Promise<{ stdout: string; stderr: string }> {
+  private async runCodeQL(args: string[], options: RunOptions = {}): Promise<{ stdout: string; stderr: string }> {
+    const { signal, onOutput, onProgress } = options;
+
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error("Command cancelled"));
+        return;
+      }
+
       console.error(`\n🔧 Executing: ${CODEQL_PATH} ${args.join(' ')}\n`);
+      onOutput?.(`$ codeql ${args.join(' ')}`);
       
       const proc = spawn(CODEQL_PATH, args, {
-        env: { ...process.env, CODEQL_HOME }
+        env: { ...process.env, CODEQL_HOME },
+        detached: process.platform !== "win32",
       });
       let stdout = '';
       let stderr = '';
 
+      const onAbort = () => killProcessTree(proc);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const reportProgress = (output: string) => {
+        if (!onProgress) {
+          return;
+        }
+        for (const line of output.split("\n")) {
+          const match = line.trim().match(PROGRESS_LINE);
+          if (match) {
+            onProgress(parseInt(match[1]), parseInt(match[2]), match[3] || undefined);
+          }
+        }
+      };
+
       proc.stdout.on('data', (data) => {
         const output = data.toString();
         stdout += output;
         console.error(output);
+        onOutput?.(output);
+        reportProgress(output);
       });
 
       proc.stderr.on('data', (data) => {
         const output = data.toString();
         stderr += output;
         console.error(output);
+        onOutput?.(output);
+        reportProgress(output);
       });
 
       proc.on('close', (code) => {
+        signal?.removeEventListener("abort", onAbort);
         console.error(`\n✅ Command completed with code ${code}\n`);
-        if (code === 0) {
+        if (signal?.aborted) {
+          reject(new Error("Command cancelled"));
+        } else if (code === 0) {
           resolve({ stdout, stderr });
         } else {
-          reject(new Error(`Command failed with exit code ${code}`));
+          // Surface compiler diagnostics, or at least the end of stderr, instead of just the exit code
+          const diagnostics = parseDiagnostics(`${stderr}\n${stdout}`);
+          let message = `Command failed with exit code ${code}`;
+          if (diagnostics.length > 0) {
+            message += `\n\nDiagnostics:\n${formatDiagnostics(diagnostics)}`;
+          } else if (stderr.trim()) {
+            message += `\n\n${stderr.trim().split("\n").slice(-10).join("\n")}`;
+          }
+          reject(new CodeQLError(message, code, diagnostics));
         }
       });
 
       proc.on('error', (error) => {
+        signal?.removeEventListener("abort", onAbort);
         reject(error);
       });
     });
   }
 
+  /**
+   * Build run options for a tool call: the request's abort signal plus
+   * MCP progress notifications when the client sent a progress token
+   */
+  private requestOptions(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): RunOptions {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return { signal: extra.signal };
+    }
+
+    // MCP requires progress to increase with every notification
+    let lastProgress = -1;
+    return {
+      signal: extra.signal,
+      onProgress: (progress, total, message) => {
+        if (progress <= lastProgress) {
+          return;
+        }
+        lastProgress = progress;
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message },
+        }).catch((error) => console.error("Failed to send progress notification:", error));
+      },
+    };
+  }
+
+  /**
+   * Run a query file against a database and decode its #select result set
+   */
+  private async runQueryForRows(
+    queryFile: string,
+    db: CodeQLDatabase,
+    options: RunOptions = {}
+  ): Promise<{ columns: string[]; rows: any[][] }> {
+    const tempDir = join(CODEQL_DB_DIR, ".temp");
+    await mkdir(tempDir, { recursive: true });
+
+    const bqrsFile = join(tempDir, `query-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.bqrs`);
+
+    try {
+      await this.runQueryToBqrs(queryFile, db, bqrsFile, options);
+      return await this.decodeAllRows(bqrsFile, options);
+    } finally {
+      await removeTempFiles([bqrsFile]);
+    }
+  }
+
+  private async runQueryToBqrs(queryFile: string, db: CodeQLDatabase, bqrsFile: string, options: RunOptions = {}, extraArgs: string[] = []) {
+    await this.runCodeQL([
+      "query",
+      "run",
+      queryFile,
+      "--database",
+      db.path,
+      "--output",
+      bqrsFile,
+      "--threads=0",
+      ...extraArgs,
+    ], options);
+  }
+
+  /**
+   * Decode every row of the #select result set (or the first result set)
+   */
+  private async decodeAllRows(bqrsFile: string, options: RunOptions = {}): Promise<{ columns: string[]; rows: any[][] }> {
+    const tempDir = join(CODEQL_DB_DIR, ".temp");
+    await mkdir(tempDir, { recursive: true });
+
+    const run = this.bqrsRunner(options);
+    const infos = await bqrsInfo(run, bqrsFile);
+    const info = infos.find(rs => rs.name === "#select") || infos[0];
+    if (!info) {
+      return { columns: [], rows: [] };
+    }
+
+    const page = await decodePage(run, bqrsFile, info, 0, info.rows, tempDir);
+    return {
+      columns: info.columns.map(c => c.name),
+      rows: page.rows,
+    };
+  }
+
+  private bqrsRunner(options: RunOptions): CodeQLRunner {
+    return (args) => this.runCodeQL(args, { signal: options.signal });
+  }
+
+  /**
+   * Move a BQRS file into the result store and prune the oldest results
+   */
+  private async storeResult(bqrsFile: string): Promise<string> {
+    await mkdir(RESULTS_DIR, { recursive: true });
+
+    const resultId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    await rename(bqrsFile, join(RESULTS_DIR, `${resultId}.bqrs`));
+
+    const stored = await Promise.all(
+      (await readdir(RESULTS_DIR))
+        .filter(file => file.endsWith(".bqrs"))
+        .map(async file => ({ file, mtime: (await stat(join(RESULTS_DIR, file))).mtimeMs }))
+    );
+    stored.sort((a, b) => b.mtime - a.mtime);
+    await removeTempFiles(stored.slice(MAX_STORED_RESULTS).map(entry => join(RESULTS_DIR, entry.file)));
+
+    return resultId;
+  }
+
+  /**
+   * Render one page of a stored result together with an overview of all
+   * result sets in the file
+   */
+  private async formatResultPage(
+    bqrsFile: string,
+    resultSet: string | undefined,
+    offset: number,
+    limit: number,
+    options: RunOptions = {}
+  ) {
+    const tempDir = join(CODEQL_DB_DIR, ".temp");
+    await mkdir(tempDir, { recursive: true });
+
+    const run = this.bqrsRunner(options);
+    const infos = await bqrsInfo(run, bqrsFile, limit);
+    const info = resultSet
+      ? infos.find(rs => rs.name === resultSet)
+      : infos.find(rs => rs.name === "#select") || infos[0];
+    if (!info) {
+      throw new Error(resultSet
+        ? `Result set '${resultSet}' not found. Available: ${infos.map(rs => rs.name).join(", ")}`
+        : "The result file contains no result sets");
+    }
+
+    const page = await decodePage(run, bqrsFile, info, offset, limit, tempDir);
+
+    return {
+      result_sets: infos.map(rs => ({ name: rs.name, rows: rs.rows, columns: rs.columns })),
+      result_set: page.resultSet,
+      columns: page.columns.map(c => c.name),
+      total_rows: page.totalRows,
+      offset: page.offset,
+      rows: page.rows,
+      next_cursor: page.nextOffset === undefined ? null : encodeCursor({
+        source: bqrsFile,
+        resultSet: page.resultSet,
+        offset: page.nextOffset,
+        limit,
+      }),
+    };
+  }
+
+  /**
+   * Write inline QL into the shared query pack for a language, installing
+   * the pack's codeql/<lang>-all dependency on first use
+   */
+  private async writeInlineQuery(language: string, query: string, options: RunOptions = {}): Promise<string> {
+    const lang = codeqlLanguage(language);
+    const packDir = join(CODEQL_DB_DIR, ".queries", `inline-${lang}`);
+    await mkdir(packDir, { recursive: true });
+
+    // The pack is shared by all inline queries for a language, so its
+    // dependencies only need to be installed once
+    try {
+      await access(join(packDir, "codeql-pack.lock.yml"));
+    } catch {
+      await writeFile(join(packDir, "qlpack.yml"), `name: codeql-mcp/inline-${lang}
+version: 0.0.1
+dependencies:
+  codeql/${lang}-all: "*"
+`);
+      await this.runCodeQL(["pack", "install", packDir], { signal: options.signal });
+    }
+
+    const queryFile = join(packDir, `inline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.ql`);
+    await writeFile(queryFile, query);
+    return queryFile;
+  }
+
+  /**
+   * Type-check a query without evaluating it and return its diagnostics
+   */
+  private async compileQuery(queryFile: string, options: RunOptions = {}): Promise<{ success: boolean; diagnostics: CodeQLDiagnostic[] }> {
+    try {
+      const { stdout, stderr } = await this.runCodeQL([
+        "query",
+        "compile",
+        "--check-only",
+        queryFile,
+      ], { signal: options.signal });
+      return { success: true, diagnostics: parseDiagnostics(`${stderr}\n${stdout}`) };
+    } catch (error) {
+      if (error instanceof CodeQLError) {
+        return { success: false, diagnostics: error.diagnostics };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fail fast with compiler diagnostics before spending time on evaluation
+   */
+  private async validateQuery(queryFile: string, options: RunOptions = {}) {
+    const { success, diagnostics } = await this.compileQuery(queryFile, options);
+    if (!success) {
+      throw new CodeQLError(
+        `Query compilation failed\n\nDiagnostics:\n${formatDiagnostics(diagnostics) || "(no diagnostics reported)"}`,
+        1,
+        diagnostics
+      );
+    }
+  }
+
+  /**
+   * Write inline QL into a query pack that depends on the database's
+   * language library, run it and return the decoded rows
+   */
+  private async runInlineQuery(db: CodeQLDatabase, query: string, maxRows: number, options: RunOptions = {}) {
+    const queryFile = await this.writeInlineQuery(db.language, query, options);
+    const bqrsFile = join(dirname(queryFile), `${basename(queryFile, ".ql")}.bqrs`);
+    const models = await this.modelPacks(db);
+
+    try {
+      const cached = await this.withCache(db, "bqrs", { kind: "query", query, ...models.cacheParts }, bqrsFile, async () => {
+        await this.validateQuery(queryFile, options);
+        await this.runQueryToBqrs(queryFile, db, bqrsFile, options, models.args);
+      });
+      const resultId = await this.storeResult(bqrsFile);
+      const page = await this.formatResultPage(join(RESULTS_DIR, `${resultId}.bqrs`), undefined, 0, maxRows, options);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Inline query executed successfully on database '${db.name}'${cached ? " (cached result)" : ""}\n\n` +
+              `Result ID: ${resultId} (use get_query_results to page through all result sets)\n\n` +
+              JSON.stringify(page, null, 2),
+          },
+        ],
+      };
+    } finally {
+      await removeTempFiles([queryFile, bqrsFile]);
+    }
+  }
+
+  /**
+   * Arguments that apply the user's model packs for the database's
+   * language, plus a cache key part that changes when the models do
+   */
+  private async modelPacks(db: CodeQLDatabase): Promise<{ args: string[]; cacheParts: Record<string, string> }> {
+    const language = codeqlLanguage(db.language);
+    const args = await this.models.packArgs(language);
+    if (args.length === 0) {
+      return { args, cacheParts: {} };
+    }
+    return { args, cacheParts: { models: await this.models.fingerprint(language) } };
+  }
+
+  /**
+   * Metadata of every query in a suite, via `codeql resolve queries`
+   */
+  private async resolveRules(suiteRef: string, options: RunOptions = {}): Promise<RuleInfo[]> {
+    const known = this.ruleCatalog.get(suiteRef);
+    if (known) {
+      return known;
+    }
+
+    const { stdout } = await this.runCodeQL(["resolve", "queries", suiteRef, "--format=json"], { signal: options.signal });
+    const paths: string[] = JSON.parse(stdout);
+    const rules: RuleInfo[] = [];
+    for (const path of paths) {
+      const rule = await readRuleInfo(path);
+      if (rule) {
+        rules.push(rule);
+      }
+    }
+    rules.sort((a, b) => a.id.localeCompare(b.id));
+
+    this.ruleCatalog.set(suiteRef, rules);
+    return rules;
+  }
+
+  /**
+   * Cache key part for a query file, directory or suite: the content of
+   * every query it resolves to and of the libraries they may import. The
+   * resolution is reused until queryTargetStamp changes, and unchanged
+   * files are not re-read, so a cache hit needs no CodeQL process.
+   */
+  private async queryIdentity(target: string, options: RunOptions = {}): Promise<string> {
+    const stamp = await queryTargetStamp(target);
+    let resolved = this.resolvedQueries.get(target);
+    if (!resolved || resolved.stamp !== stamp) {
+      const { stdout } = await this.runCodeQL(["resolve", "queries", target, "--format=json"], { signal: options.signal });
+      resolved = { stamp, files: JSON.parse(stdout) };
+      this.resolvedQueries.set(target, resolved);
+    }
+    return this.cache.queryIdentity(resolved.files);
+  }
+
+  private async getCliVersion(): Promise<string> {
+    if (!this.cliVersion) {
+      const { stdout } = await execFileAsync(CODEQL_PATH, ["version", "--format=terse"]);
+      this.cliVersion = stdout.trim();
+    }
+    return this.cliVersion;
+  }
+
+  /**
+   * Serve `outputFile` from the result cache, or produce it and store it.
+   * The key covers the database identity, the CLI version and `parts`
+   * (query text or suite plus anything else that affects the output).
+   * Returns true when the file came from the cache.
+   */
+  private async withCache(
+    db: CodeQLDatabase,
+    ext: string,
+    parts: Record<string, string>,
+    outputFile: string,
+    produce: () => Promise<void>
+  ): Promise<boolean> {
+    const key = this.cache.key({
+      ...parts,
+      database: await this.cache.databaseIdentity(db.path, db.created),
+      cli: await this.getCliVersion(),
+    });
+
+    const cached = await this.cache.get(db.name, key, ext);
+    if (cached) {
+      await copyFile(cached, outputFile);
+      return true;
+    }
+
+    await produce();
+    await this.cache.put(db.name, key, ext, outputFile);
+    return false;
+  }
+
+  /**
+   * Attach triage decisions to findings and drop the ones marked as false
+   * positive or won't fix, unless `includeTriaged` is set
+   */
+  private applyTriage(findings: Finding[], includeTriaged: boolean): { visible: Finding[]; hidden: number } {
+    const visible: Finding[] = [];
+    let hidden = 0;
+
+    for (const finding of findings) {
+      const decision = this.triage.get(finding.rule, finding.fingerprint);
+      if (decision) {
+        finding.triage = { status: decision.status, comment: decision.comment, author: decision.author };
+        if (!includeTriaged && SUPPRESSING_STATUSES.includes(decision.status)) {
+          hidden++;
+          continue;
+        }
+      }
+      visible.push(finding);
+    }
+
+    return { visible, hidden };
+  }
+
+  /**
+   * Record an analysis in the PostgreSQL findings store. PostgreSQL is
+   * optional, so this returns null instead of failing the analysis when
+   * it is unavailable. A `cached` result was normally stored when it was
+   * produced; then it is not inserted again and that run's id is returned.
+   */
+  private async ingestFindings(
+    databaseName: string,
+    tool: string,
+    query: string,
+    sarifFile: string,
+    findings: Finding[],
+    cached: boolean
+  ): Promise<number | null> {
+    if (!(await postgres.testConnection())) {
+      return null;
+    }
+
+    try {
+      await postgres.ensureSchema();
+      const earlier = cached ? await postgres.latestAnalysisRun(databaseName, tool, query) : null;
+      if (earlier !== null) {
+        return earlier;
+      }
+      return await postgres.insertAnalysisRun(databaseName, tool, query, sarifFile, findings.map(f => ({
+        fingerprint: f.fingerprint,
+        rule_id: f.rule,
+        level: f.level,
+        message: f.message,
+        file: f.locations[0]?.file ?? null,
+        line: f.locations[0]?.line ?? null,
+        col: f.locations[0]?.column ?? null,
+        security_severity: f.securitySeverity ?? null,
+      })));
+    } catch (error) {
+      console.error("Failed to store findings:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Queue a long-running handler as a background job and return its id
+   */
+  private startJob(
+    type: JobType,
+    databaseName: string,
+    handler: (ctx: JobContext) => Promise<{ content: { type: string; text: string }[] }>
+  ) {
+    const job = this.jobs.enqueue(type, databaseName, async (ctx) => {
+      const result = await handler(ctx);
+      return result.content.map(c => c.text).join("\n");
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Started ${type} job for '${databaseName}'\n\nJob ID: ${job.id}\n\nUse get_job_status to follow progress or cancel_job to stop it.`,
+        },
+      ],
+    };
+  }
+
+  private formatJob(job: Job, outputLines: number = 0): string {
+    let text = `Job ${job.id}\n` +
+      `  Type: ${job.type}\n` +
+      `  Database: ${job.database_name}\n` +
+      `  Status: ${job.status}\n` +
+      `  Phase: ${job.phase}\n` +
+      `  Created: ${job.created}\n` +
+      `  Elapsed: ${JobManager.elapsedSeconds(job).toFixed(1)}s\n`;
+
+    if (job.error) {
+      text += `  Error: ${job.error}\n`;
+    }
+    if (job.result) {
+      text += `\nResult:\n${job.result}\n`;
+    }
+    if (outputLines > 0 && job.output.length > 0) {
+      const tail = job.output.slice(-outputLines);
+      text += `\nOutput (last ${tail.length} lines):\n${tail.join("\n")}\n`;
+    }
+
+    return text;
+  }
+
   private setupHandlers() {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -184,6 +811,14 @@ class CodeQLMCPServer {
                 type: "string",
                 description: "Build command for compiled languages (optional, required for C/C++, Java, C#)",
               },
+              overwrite: {
+                type: "boolean",
+                description: "Recreate an existing database of the same name in place, keeping its graph index for an incremental build_graph_index (default: false)",
+              },
+              background: {
+                type: "boolean",
+                description: "Run as a background job and return a job ID immediately (default: false)",
+              },
             },
             required: ["source_path", "language"],
           },
@@ -200,7 +835,7 @@ class CodeQLMCPServer {
               },
               query: {
                 type: "string",
-                description: "CodeQL query to run (either a .ql file path or inline query)",
+                description: "CodeQL query to run (either a .ql file path or inline query). Inline QL is run with the database language's standard library (e.g. 'import javascript') and returns decoded rows.",
               },
               query_suite: {
                 type: "string",
@@ -212,6 +847,10 @@ class CodeQLMCPServer {
                 enum: ["sarif-latest", "csv", "sarifv2.1.0"],
                 default: "sarif-latest",
               },
+              max_rows: {
+                type: "number",
+                description: "Maximum number of rows to return for inline queries (default: 100)",
+              },
             },
             required: ["database_name"],
           },
@@ -226,7 +865,7 @@ class CodeQLMCPServer {
         },
         {
           name: "analyze_security",
-          description: "Run comprehensive security analysis on a database using CodeQL's security query suite. Detects common vulnerabilities like SQL injection, XSS, path traversal, etc.",
+          description: "Run comprehensive security analysis on a database using CodeQL's security query suite for the database's language. Detects common vulnerabilities like SQL injection, XSS, path traversal, etc. Results can be filtered by level, security-severity, precision and tags, and are summarized per rule and per file.",
           inputSchema: {
             type: "object",
             properties: {
@@ -240,13 +879,173 @@ class CodeQLMCPServer {
                 enum: ["error", "warning", "recommendation", "note"],
                 default: "warning",
               },
+              suite: {
+                type: "string",
+                description: "Query suite to run for the database's language",
+                enum: ["default", "security-extended", "security-and-quality"],
+                default: "security-extended",
+              },
+              min_security_severity: {
+                type: "number",
+                description: "Minimum CVSS-style security-severity score of the rule (0-10)",
+              },
+              min_precision: {
+                type: "string",
+                description: "Minimum rule precision",
+                enum: ["low", "medium", "high", "very-high"],
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only report rules carrying at least one of these tags (e.g. 'security', 'external/cwe/cwe-079')",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of individual findings to list (default: 100)",
+              },
+              include_triaged: {
+                type: "boolean",
+                description: "Also show findings triaged as false-positive or wont-fix (default: false)",
+              },
             },
             required: ["database_name"],
           },
         },
+        {
+          name: "run_taint_analysis",
+          description: "Generate a taint-tracking path-problem query from a JSON spec of sources, sinks and sanitizers, run it on a JavaScript/TypeScript or Python database and summarize the results like analyze_security. Each node is a call result, a call argument, a function parameter or a member access, e.g. {kind: 'member', object: 'req', property: 'query'} or {kind: 'argument', function: 'exec', index: 0}.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Name of the CodeQL database to analyze",
+              },
+              sources: {
+                type: "array",
+                description: "Where tainted data comes from",
+                items: {
+                  type: "object",
+                  properties: {
+                    kind: { type: "string", enum: ["call", "argument", "parameter", "member"] },
+                    function: { type: "string", description: "Function or method name (call, argument, parameter)" },
+                    index: { type: "number", description: "Argument or parameter position; any if omitted" },
+                    property: { type: "string", description: "Property or attribute name (member)" },
+                    object: { type: "string", description: "Only reads on a variable with this name (member)" },
+                  },
+                  required: ["kind"],
+                },
+              },
+              sinks: {
+                type: "array",
+                description: "Where tainted data must not arrive",
+                items: {
+                  type: "object",
+                  properties: {
+                    kind: { type: "string", enum: ["call", "argument", "parameter", "member"] },
+                    function: { type: "string", description: "Function or method name (call, argument, parameter)" },
+                    index: { type: "number", description: "Argument or parameter position; any if omitted" },
+                    property: { type: "string", description: "Property or attribute name (member)" },
+                    object: { type: "string", description: "Only reads on a variable with this name (member)" },
+                  },
+                  required: ["kind"],
+                },
+              },
+              sanitizers: {
+                type: "array",
+                description: "Nodes that stop the flow, e.g. calls to an escaping function",
+                items: {
+                  type: "object",
+                  properties: {
+                    kind: { type: "string", enum: ["call", "argument", "parameter", "member"] },
+                    function: { type: "string", description: "Function or method name (call, argument, parameter)" },
+                    index: { type: "number", description: "Argument or parameter position; any if omitted" },
+                    property: { type: "string", description: "Property or attribute name (member)" },
+                    object: { type: "string", description: "Only reads on a variable with this name (member)" },
+                  },
+                  required: ["kind"],
+                },
+              },
+              name: {
+                type: "string",
+                description: "Name of the generated query (default: 'Custom taint flow')",
+              },
+              message: {
+                type: "string",
+                description: "Alert message; '$@' is replaced by a link to the source",
+              },
+              show_query: {
+                type: "boolean",
+                description: "Include the generated QL in the response (default: false)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of individual findings to list (default: 100)",
+              },
+              include_triaged: {
+                type: "boolean",
+                description: "Also show findings triaged as false-positive or wont-fix (default: false)",
+              },
+            },
+            required: ["database_name", "sources", "sinks"],
+          },
+        },
+        {
+          name: "list_rules",
+          description: "List the rules (queries) in a language's security suite with id, name, severity, precision, security-severity, tags and CWE ids.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              language: {
+                type: "string",
+                description: "Language whose standard queries to list",
+              },
+              database_name: {
+                type: "string",
+                description: "Use the language of this database (instead of language)",
+              },
+              suite: {
+                type: "string",
+                description: "Query suite",
+                enum: ["default", "security-extended", "security-and-quality"],
+                default: "security-extended",
+              },
+              tag: {
+                type: "string",
+                description: "Only list rules carrying this tag, e.g. 'security' or 'external/cwe/cwe-079'",
+              },
+              cwe: {
+                type: "string",
+                description: "Only list rules mapped to this CWE, e.g. 'CWE-79'",
+              },
+            },
+          },
+        },
+        {
+          name: "describe_rule",
+          description: "Explain a rule such as 'js/sql-injection': its metadata and help markdown (from the SARIF of a database's latest analysis, or generated from the query's .qhelp file).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              rule_id: {
+                type: "string",
+                description: "Rule id, e.g. 'js/sql-injection'",
+              },
+              database_name: {
+                type: "string",
+                description: "Database whose latest analysis results may contain the rule's help",
+              },
+              language: {
+                type: "string",
+                description: "Language of the rule (default: inferred from the database or the rule id prefix)",
+              },
+            },
+            required: ["rule_id"],
+          },
+        },
         {
           name: "find_patterns",
-          description: "Search for specific code patterns or anti-patterns in the codebase using CodeQL",
+          description: "Search for specific code patterns or anti-patterns in the codebase using the bundled CodeQL pattern queries (JavaScript/TypeScript and Python). Returns matches with name, file, line and metric value.",
           inputSchema: {
             type: "object",
             properties: {
@@ -259,6 +1058,22 @@ class CodeQLMCPServer {
                 description: "Type of pattern to find",
                 enum: ["unused-code", "duplicate-code", "complex-functions", "long-methods", "dead-code"],
               },
+              max_complexity: {
+                type: "number",
+                description: "complex-functions: report functions with cyclomatic complexity above this (default: 10)",
+              },
+              max_lines: {
+                type: "number",
+                description: "long-methods: report functions longer than this many lines (default: 50)",
+              },
+              min_statements: {
+                type: "number",
+                description: "duplicate-code: ignore functions with fewer statements than this (default: 5)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of matches (or duplicate groups) to return (default: 50)",
+              },
             },
             required: ["database_name", "pattern_type"],
           },
@@ -335,18 +1150,370 @@ class CodeQLMCPServer {
               },
               output_format: {
                 type: "string",
-                description: "Export format",
-                enum: ["csv", "json", "markdown"],
+                description: "Export format: csv, json, markdown, junit (JUnit XML, one testcase per rule), gitlab (GitLab Code Quality), codeclimate (CodeClimate issues) or html (self-contained report)",
+                enum: ["csv", "json", "markdown", "junit", "gitlab", "codeclimate", "html"],
               },
               output_path: {
                 type: "string",
                 description: "Path where to save the exported file",
               },
-            },
-            required: ["result_file", "output_format", "output_path"],
-          },
-        },
-        {
+              include_triaged: {
+                type: "boolean",
+                description: "Also export findings triaged as false-positive or wont-fix (default: false)",
+              },
+              rules: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only export findings of these rule ids",
+              },
+              min_level: {
+                type: "string",
+                description: "Only export findings at or above this level",
+                enum: ["error", "warning", "recommendation", "note"],
+              },
+              path_glob: {
+                type: "string",
+                description: "Only export findings in files matching this glob, e.g. 'src/**/*.ts'",
+              },
+            },
+            required: ["result_file", "output_format", "output_path"],
+          },
+        },
+        {
+          name: "diff_results",
+          description: "Compare two analyses (e.g. a branch against main) and report new, fixed and persisting findings. Results are matched by SARIF fingerprint, falling back to rule + file + snippet.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              base_sarif: {
+                type: "string",
+                description: "SARIF file of the baseline analysis",
+              },
+              head_sarif: {
+                type: "string",
+                description: "SARIF file of the analysis to compare",
+              },
+              base_database: {
+                type: "string",
+                description: "Baseline database; uses its latest analyze_security result",
+              },
+              head_database: {
+                type: "string",
+                description: "Database to compare; uses its latest analyze_security result",
+              },
+              output_format: {
+                type: "string",
+                description: "Also write the diff in this export format",
+                enum: ["csv", "json", "markdown"],
+              },
+              output_path: {
+                type: "string",
+                description: "Path where to save the exported diff (required with output_format)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of new and fixed findings to list (default: 50 each)",
+              },
+            },
+          },
+        },
+        {
+          name: "compliance_report",
+          description: "Summarize security findings by CWE and OWASP Top 10 (2021) category with counts per severity (critical/high/medium/low). OWASP categories are marked as having findings, covered by rules that ran without findings, or not covered.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Database whose latest analyze_security results to report on",
+              },
+              sarif_file: {
+                type: "string",
+                description: "SARIF file to report on (instead of database_name)",
+              },
+              output_format: {
+                type: "string",
+                description: "Report format (default: markdown)",
+                enum: ["markdown", "json"],
+              },
+              output_path: {
+                type: "string",
+                description: "Also write the report to this file",
+              },
+              include_triaged: {
+                type: "boolean",
+                description: "Also count findings triaged as false-positive or wont-fix (default: false)",
+              },
+            },
+          },
+        },
+        {
+          name: "triage_finding",
+          description: "Record a triage decision (false-positive, wont-fix, confirmed) for a finding. Decisions are keyed by rule and fingerprint, so they survive line shifts and apply to later analyses. Identify the finding by fingerprint (shown by analyze_security), which must match a stored finding of the rule, or by database, file and line.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              rule: {
+                type: "string",
+                description: "Rule id of the finding, e.g. 'js/sql-injection'",
+              },
+              fingerprint: {
+                type: "string",
+                description: "Fingerprint of the finding as shown by analyze_security",
+              },
+              database_name: {
+                type: "string",
+                description: "Database whose latest analyze_security results contain the finding (when no fingerprint is given)",
+              },
+              file: {
+                type: "string",
+                description: "File of the finding (when no fingerprint is given)",
+              },
+              line: {
+                type: "number",
+                description: "Line of the finding (when no fingerprint is given)",
+              },
+              status: {
+                type: "string",
+                description: "Triage decision; 'untriaged' removes an existing decision",
+                enum: ["false-positive", "wont-fix", "confirmed", "untriaged"],
+              },
+              comment: {
+                type: "string",
+                description: "Reason for the decision",
+              },
+              author: {
+                type: "string",
+                description: "Who made the decision (default: current user)",
+              },
+            },
+            required: ["rule", "status"],
+          },
+        },
+        {
+          name: "list_triage",
+          description: "List recorded triage decisions.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              status: {
+                type: "string",
+                description: "Only list decisions with this status",
+                enum: ["false-positive", "wont-fix", "confirmed"],
+              },
+              rule: {
+                type: "string",
+                description: "Only list decisions for this rule",
+              },
+              database_name: {
+                type: "string",
+                description: "Only list decisions made on findings of this database",
+              },
+            },
+          },
+        },
+        {
+          name: "explain_finding",
+          description: "Show the data-flow path(s) of a path-problem finding from source to sink, with source snippets read from the database's source archive. Identify the finding by fingerprint (shown by analyze_security) or by rule, file and line.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Database the finding was reported on; with sarif_file, the database that SARIF was produced from, whose source archive provides the snippets",
+              },
+              fingerprint: {
+                type: "string",
+                description: "Fingerprint of the finding as shown by analyze_security",
+              },
+              rule: {
+                type: "string",
+                description: "Rule id of the finding (when no fingerprint is given)",
+              },
+              file: {
+                type: "string",
+                description: "File of the finding (when no fingerprint is given)",
+              },
+              line: {
+                type: "number",
+                description: "Line of the finding (when no fingerprint is given)",
+              },
+              sarif_file: {
+                type: "string",
+                description: "SARIF file containing the finding (default: latest analyze_security result of the database)",
+              },
+              context_lines: {
+                type: "number",
+                description: "Lines of source shown around each step (default: 1)",
+              },
+              max_paths: {
+                type: "number",
+                description: "Maximum number of paths to show (default: 3)",
+              },
+            },
+            required: ["database_name"],
+          },
+        },
+        {
+          name: "list_source_files",
+          description: "List the source files stored in a database's source archive (src.zip), with sizes. Works even when the original checkout has moved or changed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Name of the database",
+              },
+              pattern: {
+                type: "string",
+                description: "Glob on the path relative to the source root, e.g. 'src/**/*.ts'",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of files to list (default: 500)",
+              },
+            },
+            required: ["database_name"],
+          },
+        },
+        {
+          name: "read_source_file",
+          description: "Read a file (or a line range of it) from a database's source archive, with line numbers.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Name of the database",
+              },
+              file: {
+                type: "string",
+                description: "Path relative to the source root (as in findings and graph results) or absolute",
+              },
+              start_line: {
+                type: "number",
+                description: "First line to return (default: 1)",
+              },
+              end_line: {
+                type: "number",
+                description: "Last line to return (default: start_line + 499)",
+              },
+            },
+            required: ["database_name", "file"],
+          },
+        },
+        {
+          name: "get_snippet",
+          description: "Show the lines around a file:line location from a database's source archive, e.g. to inspect a finding or graph result.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Name of the database",
+              },
+              file: {
+                type: "string",
+                description: "Path relative to the source root (as in findings and graph results) or absolute",
+              },
+              line: {
+                type: "number",
+                description: "Line to show",
+              },
+              context: {
+                type: "number",
+                description: "Lines of context before and after (default: 5)",
+              },
+            },
+            required: ["database_name", "file", "line"],
+          },
+        },
+        {
+          name: "create_model_pack",
+          description: "Create or replace a models-as-data extension pack that adds sources, sinks, flow summaries or neutral models for a language. Packs are stored under ~/.codeql-mcp/models and applied automatically to run_query, analyze_security and run_taint_analysis on databases of that language.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              language: {
+                type: "string",
+                description: "Language the models apply to",
+                enum: ["javascript", "typescript", "python", "ruby", "java", "csharp", "go", "cpp"],
+              },
+              name: {
+                type: "string",
+                description: "Pack name (lowercase letters, digits and hyphens), e.g. 'internal-http'",
+              },
+              models: {
+                type: "object",
+                description: "Rows per extensible predicate: sourceModel, sinkModel, summaryModel, neutralModel. JavaScript/Python/Ruby rows are [type, path, kind] ([type, path, input, output, kind] for summaryModel); Java/C#/Go/C++ rows use the package/type/subtypes/name/signature layout.",
+                properties: {
+                  sourceModel: { type: "array", items: { type: "array" } },
+                  sinkModel: { type: "array", items: { type: "array" } },
+                  summaryModel: { type: "array", items: { type: "array" } },
+                  neutralModel: { type: "array", items: { type: "array" } },
+                },
+              },
+            },
+            required: ["language", "name", "models"],
+          },
+        },
+        {
+          name: "list_model_packs",
+          description: "List models-as-data extension packs with their model counts.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              language: {
+                type: "string",
+                description: "Only list packs for this language",
+                enum: ["javascript", "typescript", "python", "ruby", "java", "csharp", "go", "cpp"],
+              },
+              show_models: {
+                type: "boolean",
+                description: "Include every model row (default: false)",
+              },
+            },
+          },
+        },
+        {
+          name: "validate_model_pack",
+          description: "Check the rows of a stored model pack against the column layout of its language, e.g. after editing its YAML by hand. Edited files must keep the JSON-compatible YAML layout that create_model_pack writes.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              language: {
+                type: "string",
+                description: "Language of the pack",
+                enum: ["javascript", "typescript", "python", "ruby", "java", "csharp", "go", "cpp"],
+              },
+              name: {
+                type: "string",
+                description: "Pack name",
+              },
+            },
+            required: ["language", "name"],
+          },
+        },
+        {
+          name: "delete_model_pack",
+          description: "Delete a models-as-data extension pack.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              language: {
+                type: "string",
+                description: "Language of the pack",
+                enum: ["javascript", "typescript", "python", "ruby", "java", "csharp", "go", "cpp"],
+              },
+              name: {
+                type: "string",
+                description: "Pack name",
+              },
+            },
+            required: ["language", "name"],
+          },
+        },
+        {
           name: "find_function",
           description: "Find function definitions in the codebase with fuzzy name matching. Searches across all files and returns function locations, signatures, and containing files. NOTE: Slow. Use find_function_graph if graph index is built.",
           inputSchema: {
@@ -370,7 +1537,7 @@ class CodeQLMCPServer {
         },
         {
           name: "build_graph_index",
-          description: "Build PostgreSQL graph index for fast queries. Extracts functions, calls, classes from CodeQL database. One-time operation, then queries are significantly faster.",
+          description: "Build PostgreSQL graph index for fast queries. Extracts functions, calls, classes from CodeQL database. One-time operation, then queries are significantly faster. After recreating the database from a changed checkout (create_database with overwrite), pass incremental or changed_files to replace only the changed files' rows.",
           inputSchema: {
             type: "object",
             properties: {
@@ -378,6 +1545,19 @@ class CodeQLMCPServer {
                 type: "string",
                 description: "Name of the CodeQL database to index",
               },
+              incremental: {
+                type: "boolean",
+                description: "Update only files whose content hash in the source archive changed since the last build (default: false, full rebuild)",
+              },
+              changed_files: {
+                type: "array",
+                items: { type: "string" },
+                description: "Files to update, relative to the source root (implies incremental; skips hash comparison)",
+              },
+              background: {
+                type: "boolean",
+                description: "Run as a background job and return a job ID immediately (default: false)",
+              },
             },
             required: ["database_name"],
           },
@@ -467,8 +1647,8 @@ class CodeQLMCPServer {
           },
         },
         {
-          name: "get_graph_stats",
-          description: "Get database statistics and hot spots using graph index.",
+          name: "find_variable_graph",
+          description: "Find global, module and class-level variables with fuzzy name matching using graph index. Returns each variable's scope, type and declaration.",
           inputSchema: {
             type: "object",
             properties: {
@@ -476,58 +1656,324 @@ class CodeQLMCPServer {
                 type: "string",
                 description: "Name of the database",
               },
+              variable_name: {
+                type: "string",
+                description: "Variable name to search (fuzzy matching)",
+              },
+              scope: {
+                type: "string",
+                enum: ["global", "module", "class"],
+                description: "Only variables declared in this scope",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum results (default: 50)",
+              },
             },
-            required: ["database_name"],
+            required: ["database_name", "variable_name"],
           },
         },
-      ];
-
-      return { tools };
-    });
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      // Check if CodeQL is installed
-      const isInstalled = await this.checkCodeQLInstalled();
-      if (!isInstalled) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Error: CodeQL CLI is not installed or not in PATH. Please install CodeQL from https://github.com/github/codeql-cli-binaries/releases",
-            },
-          ],
-        };
-      }
-
-      try {
-        switch (name) {
+        {
+          name: "find_variable_usages_graph",
+          description: "Find where a variable is read and written, and in which functions, using graph index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Name of the database",
+              },
+              variable_name: {
+                type: "string",
+                description: "Exact variable name",
+              },
+              file: {
+                type: "string",
+                description: "Only the variable declared in this file (relative to the source root)",
+              },
+              access: {
+                type: "string",
+                enum: ["read", "write"],
+                description: "Only reads or only writes",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum usages (default: 200)",
+              },
+            },
+            required: ["database_name", "variable_name"],
+          },
+        },
+        {
+          name: "get_graph_stats",
+          description: "Get database statistics and hot spots using graph index.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Name of the database",
+              },
+            },
+            required: ["database_name"],
+          },
+        },
+        {
+          name: "migrate_graph_schema",
+          description: "Show the PostgreSQL schema version and apply pending migrations. Migrations are also applied automatically on first connection unless CODEQL_MCP_AUTO_MIGRATE=false.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              dry_run: {
+                type: "boolean",
+                description: "Only report applied and pending migrations (default: false)",
+              },
+            },
+          },
+        },
+        {
+          name: "compile_query",
+          description: "Compile a CodeQL query without running it and return structured diagnostics (severity, message, line, column).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "A .ql file path or inline query",
+              },
+              database_name: {
+                type: "string",
+                description: "Database whose language library inline queries are compiled against",
+              },
+              language: {
+                type: "string",
+                description: "Language for inline queries when no database is given",
+                enum: ["javascript", "typescript", "python", "java", "cpp", "csharp", "go", "ruby", "swift"],
+              },
+            },
+            required: ["query"],
+          },
+        },
+        {
+          name: "get_query_results",
+          description: "Page through decoded BQRS query results. Lists every result set with column names and types and returns rows with offset/limit paging or a cursor from a previous call.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              result_id: {
+                type: "string",
+                description: "Result ID returned by run_query for an inline query",
+              },
+              bqrs_file: {
+                type: "string",
+                description: "Path to a BQRS file (alternative to result_id)",
+              },
+              result_set: {
+                type: "string",
+                description: "Result set to decode (default: #select)",
+              },
+              offset: {
+                type: "number",
+                description: "Index of the first row to return (default: 0)",
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of rows to return (default: 100)",
+              },
+              cursor: {
+                type: "string",
+                description: "next_cursor from a previous call; overrides the other arguments",
+              },
+            },
+          },
+        },
+        {
+          name: "query_findings",
+          description: "Query findings stored in PostgreSQL from previous analyze_security/run_query runs. Filters by rule, file glob, severity and run. Each finding reports the run in which it was first seen.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Database whose findings to query",
+              },
+              run_id: {
+                type: "number",
+                description: "Analysis run to query (default: latest run of database_name)",
+              },
+              all_runs: {
+                type: "boolean",
+                description: "Search findings of every run instead of a single run",
+              },
+              rule: {
+                type: "string",
+                description: "Rule id, e.g. 'js/sql-injection'",
+              },
+              file_glob: {
+                type: "string",
+                description: "Glob matched against the finding's file path, e.g. 'src/**/*.ts'",
+              },
+              severity: {
+                type: "string",
+                description: "Minimum SARIF level",
+                enum: ["error", "warning", "recommendation", "note"],
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of findings (default: 100)",
+              },
+            },
+          },
+        },
+        {
+          name: "clear_cache",
+          description: "Clear the query result cache, for one database or all, or shrink it to a size limit.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              database_name: {
+                type: "string",
+                description: "Only clear cached results of this database",
+              },
+              max_size_mb: {
+                type: "number",
+                description: "Instead of clearing, evict least recently used results until the cache is at most this size",
+              },
+            },
+          },
+        },
+        {
+          name: "get_job_status",
+          description: "Get status, phase, elapsed time and captured CodeQL output of a background job.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              job_id: {
+                type: "string",
+                description: "ID returned when the job was started",
+              },
+              output_lines: {
+                type: "number",
+                description: "Number of trailing output lines to include (default: 50)",
+              },
+            },
+            required: ["job_id"],
+          },
+        },
+        {
+          name: "list_jobs",
+          description: "List background jobs, including jobs interrupted by a server restart.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              status: {
+                type: "string",
+                description: "Only list jobs with this status",
+                enum: ["queued", "running", "completed", "failed", "cancelled", "interrupted"],
+              },
+            },
+          },
+        },
+        {
+          name: "cancel_job",
+          description: "Cancel a queued or running background job. Running CodeQL processes are terminated.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              job_id: {
+                type: "string",
+                description: "ID of the job to cancel",
+              },
+            },
+            required: ["job_id"],
+          },
+        },
+      ];
+
+      return { tools };
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const options = this.requestOptions(extra);
+
+      // Check if CodeQL is installed
+      const isInstalled = await this.checkCodeQLInstalled();
+      if (!isInstalled) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Error: CodeQL CLI is not installed or not in PATH. Please install CodeQL from https://github.com/github/codeql-cli-binaries/releases",
+            },
+          ],
+        };
+      }
+
+      try {
+        switch (name) {
           case "create_database":
-            return await this.handleCreateDatabase(args);
+            if (args?.background) {
+              const dbName = (args.database_name || String(args.source_path).split("/").pop()) as string;
+              return this.startJob("create_database", dbName, (ctx) => this.handleCreateDatabase(args, ctx));
+            }
+            return await this.handleCreateDatabase(args, options);
           case "run_query":
-            return await this.handleRunQuery(args);
+            return await this.handleRunQuery(args, options);
           case "list_databases":
             return await this.handleListDatabases();
           case "analyze_security":
-            return await this.handleAnalyzeSecurity(args);
+            return await this.handleAnalyzeSecurity(args, options);
+          case "run_taint_analysis":
+            return await this.handleRunTaintAnalysis(args, options);
+          case "list_rules":
+            return await this.handleListRules(args, options);
+          case "describe_rule":
+            return await this.handleDescribeRule(args, options);
           case "find_patterns":
-            return await this.handleFindPatterns(args);
+            return await this.handleFindPatterns(args, options);
           case "get_metrics":
             return await this.handleGetMetrics(args);
           case "delete_database":
             return await this.handleDeleteDatabase(args);
           case "upgrade_database":
-            return await this.handleUpgradeDatabase(args);
+            return await this.handleUpgradeDatabase(args, options);
           case "get_database_info":
             return await this.handleGetDatabaseInfo(args);
           case "export_results":
             return await this.handleExportResults(args);
+          case "diff_results":
+            return await this.handleDiffResults(args);
+          case "compliance_report":
+            return await this.handleComplianceReport(args);
+          case "triage_finding":
+            return await this.handleTriageFinding(args);
+          case "list_triage":
+            return await this.handleListTriage(args);
+          case "explain_finding":
+            return await this.handleExplainFinding(args);
+          case "list_source_files":
+            return await this.handleListSourceFiles(args);
+          case "read_source_file":
+            return await this.handleReadSourceFile(args);
+          case "get_snippet":
+            return await this.handleGetSnippet(args);
+          case "create_model_pack":
+            return await this.handleCreateModelPack(args);
+          case "list_model_packs":
+            return await this.handleListModelPacks(args);
+          case "validate_model_pack":
+            return await this.handleValidateModelPack(args);
+          case "delete_model_pack":
+            return await this.handleDeleteModelPack(args);
           case "find_function":
-            return await this.handleFindFunction(args);
+            return await this.handleFindFunction(args, options);
           case "build_graph_index":
-            return await this.handleBuildGraphIndex(args);
+            if (args?.background) {
+              return this.startJob("build_graph_index", args.database_name as string, (ctx) => this.handleBuildGraphIndex(args, ctx));
+            }
+            return await this.handleBuildGraphIndex(args, options);
           case "find_function_graph":
             return await this.handleFindFunctionFast(args);
           case "find_callers_graph":
@@ -536,8 +1982,28 @@ class CodeQLMCPServer {
             return await this.handleFindCallChain(args);
           case "get_class_hierarchy_graph":
             return await this.handleGetClassHierarchy(args);
+          case "find_variable_graph":
+            return await this.handleFindVariable(args);
+          case "find_variable_usages_graph":
+            return await this.handleFindVariableUsages(args);
           case "get_graph_stats":
             return await this.handleQueryGraphStats(args);
+          case "migrate_graph_schema":
+            return await this.handleMigrateGraphSchema(args);
+          case "compile_query":
+            return await this.handleCompileQuery(args, options);
+          case "get_query_results":
+            return await this.handleGetQueryResults(args, options);
+          case "query_findings":
+            return await this.handleQueryFindings(args);
+          case "clear_cache":
+            return await this.handleClearCache(args);
+          case "get_job_status":
+            return await this.handleGetJobStatus(args);
+          case "list_jobs":
+            return await this.handleListJobs(args);
+          case "cancel_job":
+            return await this.handleCancelJob(args);
           default:
             return {
               content: [
@@ -561,14 +2027,14 @@ class CodeQLMCPServer {
     });
   }
 
-  private async handleCreateDatabase(args: any) {
-    const { source_path, language, database_name, command } = args;
+  private async handleCreateDatabase(args: any, options: RunOptions = {}) {
+    const { source_path, language, database_name, command, overwrite = false } = args;
     const dbName = database_name || source_path.split("/").pop();
     const dbPath = join(CODEQL_DB_DIR, dbName);
 
     // Check if database already exists
     const existingDb = this.databases.get(dbName);
-    if (existingDb) {
+    if (existingDb && !overwrite) {
       try {
         // Verify database still exists on disk
         await access(join(existingDb.path, "codeql-database.yml"));
@@ -576,7 +2042,7 @@ class CodeQLMCPServer {
           content: [
             {
               type: "text",
-              text: `Database '${dbName}' already exists (created: ${existingDb.created}). Using cached database at ${existingDb.path}.\n\nTo recreate, delete it first using delete_database tool.`,
+              text: `Database '${dbName}' already exists (created: ${existingDb.created}). Using cached database at ${existingDb.path}.\n\nTo recreate, pass overwrite: true or delete it first using delete_database tool.`,
             },
           ],
         };
@@ -603,7 +2069,11 @@ class CodeQLMCPServer {
         createArgs.push(`--command=${command}`);
       }
 
-      const { stdout, stderr } = await this.runCodeQL(createArgs);
+      options.setPhase?.("Creating CodeQL database");
+      const { stdout, stderr } = await this.runCodeQL(createArgs, options);
+
+      // Drop results cached for an earlier database with the same name
+      await this.cache.clear(dbName);
 
       // Save database info
       const dbInfo: CodeQLDatabase = {
@@ -630,7 +2100,7 @@ class CodeQLMCPServer {
     }
   }
 
-  private async handleRunQuery(args: any) {
+  private async handleRunQuery(args: any, options: RunOptions = {}) {
     const { database_name, query, query_suite, format = "sarif-latest" } = args;
 
     const db = this.databases.get(database_name);
@@ -643,26 +2113,57 @@ class CodeQLMCPServer {
       const validFormat = format === "json" ? "sarif-latest" : format;
       const outputFile = join(CODEQL_DB_DIR, `${database_name}_results.sarif`);
       const queryArgs = ["database", "analyze", db.path, `--format=${validFormat}`, `--output=${outputFile}`];
+      const models = await this.modelPacks(db);
+      queryArgs.push(...models.args);
+      const cacheParts: Record<string, string> = { kind: "analyze", format: validFormat, ...models.cacheParts };
+      let queryToValidate: string | null = null;
 
       if (query_suite) {
         queryArgs.push(`--sarif-category=${query_suite}`);
         queryArgs.push(query_suite);
+        cacheParts.suite = query_suite;
+      } else if (query && isInlineQuery(query)) {
+        return await this.runInlineQuery(db, query, args.max_rows ?? 100, options);
       } else if (query) {
+        if (query.trim().endsWith(".ql")) {
+          queryToValidate = query;
+        }
         queryArgs.push(query);
+        cacheParts.path = query;
       } else {
         queryArgs.push(`${db.language}-code-scanning.qls`);
+        cacheParts.suite = `${db.language}-code-scanning.qls`;
       }
+      cacheParts.queries = await this.queryIdentity(cacheParts.suite || cacheParts.path, options);
 
-      const { stdout, stderr } = await this.runCodeQL(queryArgs);
+      let stdout = "";
+      const cached = await this.withCache(db, "sarif", cacheParts, outputFile, async () => {
+        if (queryToValidate) {
+          await this.validateQuery(queryToValidate, options);
+        }
+        ({ stdout } = await this.runCodeQL(queryArgs, options));
+      });
+      if (cached) {
+        stdout = "(cached result)";
+      }
 
       // Read results
       const results = await readFile(outputFile, "utf-8");
 
+      let stored = "";
+      if (validFormat.startsWith("sarif")) {
+        const queryLabel = cacheParts.suite || cacheParts.path;
+        const runId = await this.ingestFindings(database_name, "run_query", queryLabel, outputFile, parseFindings(JSON.parse(results)), cached);
+        if (runId !== null) {
+          stored = `\n\nFindings store: run #${runId} (use query_findings)`;
+        }
+      }
+
       return {
         content: [
           {
             type: "text",
-            text: `Query executed successfully on database '${database_name}'\n\n${stdout}\n\nResults:\n${results}`,
+            text: `Query executed successfully on database '${database_name}'${stored}\n\n${stdout}\n\nResults:\n${results}`,
           },
         ],
       };
@@ -701,8 +2202,17 @@ class CodeQLMCPServer {
     };
   }
 
-  private async handleAnalyzeSecurity(args: any) {
-    const { database_name } = args;
+  private async handleAnalyzeSecurity(args: any, options: RunOptions = {}) {
+    const {
+      database_name,
+      severity = "warning",
+      suite = "security-extended",
+      min_security_severity,
+      min_precision,
+      tags,
+      limit = 100,
+      include_triaged = false,
+    } = args;
 
     const db = this.databases.get(database_name);
     if (!db) {
@@ -711,39 +2221,49 @@ class CodeQLMCPServer {
 
     try {
       const outputFile = join(CODEQL_DB_DIR, `${database_name}_security.sarif`);
+      const suiteRef = securitySuite(db.language, suite);
+      const models = await this.modelPacks(db);
       const analyzeArgs = [
         "database",
         "analyze",
         db.path,
-        "codeql/javascript-queries:codeql-suites/javascript-security-extended.qls",
+        suiteRef,
         "--format=sarif-latest",
         `--output=${outputFile}`,
+        ...models.args,
       ];
 
-      const { stdout, stderr } = await this.runCodeQL(analyzeArgs);
+      const cacheParts = {
+        kind: "security",
+        suite: suiteRef,
+        queries: await this.queryIdentity(suiteRef, options),
+        ...models.cacheParts,
+      };
+      const cached = await this.withCache(db, "sarif", cacheParts, outputFile, async () => {
+        await this.runCodeQL(analyzeArgs, options);
+      });
 
       const results = await readFile(outputFile, "utf-8");
       const sarif = JSON.parse(results);
 
-      // Parse results
-      let findings = [];
-      for (const run of sarif.runs || []) {
-        for (const result of run.results || []) {
-          findings.push({
-            rule: result.ruleId,
-            message: result.message.text,
-            level: result.level || "warning",
-            locations: result.locations?.map((loc: any) => ({
-              file: loc.physicalLocation?.artifactLocation?.uri,
-              line: loc.physicalLocation?.region?.startLine,
-            })),
-          });
-        }
-      }
+      const allFindings = parseFindings(sarif);
+      const runId = await this.ingestFindings(database_name, "analyze_security", suiteRef, outputFile, allFindings, cached);
+      const { visible, hidden } = this.applyTriage(allFindings, include_triaged);
+      const findings = filterFindings(visible, {
+        minLevel: severity,
+        minSecuritySeverity: min_security_severity,
+        minPrecision: min_precision,
+        tags,
+      });
 
-      const summary = `Security Analysis Results for '${database_name}':\n\n` +
-        `Total findings: ${findings.length}\n\n` +
-        `Findings:\n${JSON.stringify(findings, null, 2)}`;
+      const summary = `Security Analysis Results for '${database_name}' (${db.language}, ${suite} suite${cached ? ", cached" : ""}):\n\n` +
+        `Total findings: ${findings.length}` +
+        (findings.length !== allFindings.length ? ` (${allFindings.length} before filtering)` : "") + `\n` +
+        (hidden > 0 ? `Hidden by triage: ${hidden} (set include_triaged to show them)\n` : "") +
+        `SARIF file: ${outputFile}\n` +
+        (models.args.length > 0 ? `Model packs: ${models.args[1].slice("--model-packs=".length)}\n` : "") +
+        (runId !== null ? `Findings store: run #${runId} (use query_findings)\n` : "") + `\n` +
+        summarizeFindings(findings, limit);
 
       return {
         content: [
@@ -760,106 +2280,355 @@ class CodeQLMCPServer {
     }
   }
 
-  private async handleFindPatterns(args: any) {
-    const { database_name, pattern_type } = args;
+  private async handleRunTaintAnalysis(args: any, options: RunOptions = {}) {
+    const { database_name, sources, sinks, sanitizers, name, message, show_query = false, limit = 100, include_triaged = false } = args;
 
     const db = this.databases.get(database_name);
     if (!db) {
       throw new Error(`Database '${database_name}' not found`);
     }
 
-    // Map pattern types to CodeQL query packs
-    const patternQueries: Record<string, string> = {
-      "unused-code": "DeadCode.ql",
-      "duplicate-code": "SimilarCode.ql", 
-      "complex-functions": "ComplexFunction.ql",
-      "long-methods": "LongMethod.ql",
-      "dead-code": "UnreachableCode.ql",
-    };
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Pattern finding for '${pattern_type}' is configured but requires custom CodeQL queries. You can run custom queries using the run_query tool with appropriate .ql files.`,
-        },
-      ],
-    };
-  }
-
-  private async handleGetMetrics(args: any) {
-    const { database_name } = args;
-
-    const db = this.databases.get(database_name);
-    if (!db) {
-      throw new Error(`Database '${database_name}' not found`);
+    const language = codeqlLanguage(db.language);
+    if (!TAINT_LANGUAGES.includes(language)) {
+      throw new Error(`run_taint_analysis supports JavaScript/TypeScript and Python databases; '${database_name}' is ${db.language}`);
     }
 
+    const spec: TaintSpec = { sources, sinks, sanitizers, name, message };
+    const query = generateTaintQuery(language, spec);
+    const queryFile = await this.writeInlineQuery(language, query, options);
+    const outputFile = join(CODEQL_DB_DIR, `${database_name}_taint.sarif`);
+    const models = await this.modelPacks(db);
+
     try {
-      // Get database metadata
-      const { stdout: resolveOutput } = await execFileAsync(CODEQL_PATH, [
-        "resolve",
-        "database",
-        db.path,
-      ]);
-      
-      const dbInfo = JSON.parse(resolveOutput);
-      
-      // Get database size
-      const { stdout: sizeOutput } = await execFileAsync("du", [
-        "-sh",
-        db.path,
-      ]);
-      const size = sizeOutput.trim().split("\t")[0];
+      const cached = await this.withCache(db, "sarif", { kind: "taint", query, ...models.cacheParts }, outputFile, async () => {
+        await this.validateQuery(queryFile, options);
+        await this.runCodeQL([
+          "database",
+          "analyze",
+          db.path,
+          queryFile,
+          "--format=sarif-latest",
+          `--output=${outputFile}`,
+          ...models.args,
+        ], options);
+      });
 
-      // Count files in source archive if available
-      let fileCount = "N/A";
-      if (dbInfo.sourceArchiveZip) {
-        try {
-          const { stdout: zipList } = await execFileAsync("unzip", [
-            "-l",
-            dbInfo.sourceArchiveZip,
-          ]);
-          const lines = zipList.split("\n");
-          const fileCountMatch = lines[lines.length - 2]?.match(/(\d+)\s+file/);
-          if (fileCountMatch) {
-            fileCount = fileCountMatch[1];
-          }
-        } catch {
-          // If unzip fails, skip file count
-        }
-      }
+      const allFindings = parseFindings(JSON.parse(await readFile(outputFile, "utf-8")));
+      const runId = await this.ingestFindings(database_name, "run_taint_analysis", name || "Custom taint flow", outputFile, allFindings, cached);
+      const { visible: findings, hidden } = this.applyTriage(allFindings, include_triaged);
 
-      const metrics = {
-        name: database_name,
-        language: dbInfo.languages?.[0] || db.language,
-        sourceLocation: dbInfo.sourceLocationPrefix,
-        size,
-        fileCount,
-        created: db.created,
-        datasetFolder: dbInfo.datasetFolder,
-      };
+      const summary = `Taint Analysis Results for '${database_name}' (${db.language}${cached ? ", cached" : ""}):\n\n` +
+        `Total findings: ${findings.length}\n` +
+        (hidden > 0 ? `Hidden by triage: ${hidden} (set include_triaged to show them)\n` : "") +
+        `SARIF file: ${outputFile} (pass it as sarif_file to explain_finding, with this database_name)\n` +
+        (runId !== null ? `Findings store: run #${runId} (use query_findings)\n` : "") + `\n` +
+        summarizeFindings(findings, limit) +
+        (show_query ? `\nGenerated query:\n\n${query}` : "");
 
       return {
         content: [
           {
             type: "text",
-            text: `Database Metrics for '${database_name}':\n\n${JSON.stringify(metrics, null, 2)}`,
+            text: summary,
           },
         ],
       };
     } catch (error: any) {
-      throw new Error(
-        `Failed to get metrics: ${error.message}\n${error.stderr || ""}`
-      );
+      // Show the generated QL so compile errors can be related to the spec
+      throw new Error(`Taint analysis failed: ${error.message}\n\nGenerated query:\n\n${query}`);
+    } finally {
+      await removeTempFiles([queryFile]);
     }
   }
 
-  private async handleDeleteDatabase(args: any) {
-    const { database_name } = args;
+  private async handleListRules(args: any, options: RunOptions = {}) {
+    const { database_name, suite = "security-extended", tag, cwe } = args || {};
 
-    const db = this.databases.get(database_name);
-    if (!db) {
+    let language = args?.language;
+    if (database_name) {
+      const db = this.databases.get(database_name);
+      if (!db) {
+        throw new Error(`Database '${database_name}' not found`);
+      }
+      language = db.language;
+    }
+    if (!language) {
+      throw new Error("Provide language or database_name");
+    }
+
+    try {
+      const suiteRef = securitySuite(language, suite);
+      const rules = filterRules(await this.resolveRules(suiteRef, options), { tag, cwe });
+
+      const list = rules.map(rule => {
+        const details = [
+          rule.severity,
+          rule.precision ? `precision ${rule.precision}` : undefined,
+          rule.securitySeverity !== undefined ? `security-severity ${rule.securitySeverity}` : undefined,
+        ].filter(Boolean).join(", ");
+        const otherTags = rule.tags.filter(t => !t.startsWith("external/cwe/"));
+        return `- ${rule.id}${rule.name ? ` - ${rule.name}` : ""}${details ? ` [${details}]` : ""}\n` +
+          (rule.cwes.length > 0 ? `  CWE: ${rule.cwes.join(", ")}\n` : "") +
+          (otherTags.length > 0 ? `  Tags: ${otherTags.join(", ")}\n` : "");
+      }).join("");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Rules in ${suiteRef} (${rules.length}):\n\n${list || "No matching rules"}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list rules: ${error.message}`);
+    }
+  }
+
+  private async handleDescribeRule(args: any, options: RunOptions = {}) {
+    const { rule_id, database_name } = args;
+
+    const db = database_name ? this.databases.get(database_name) : undefined;
+    if (database_name && !db) {
+      throw new Error(`Database '${database_name}' not found`);
+    }
+
+    try {
+      // Help embedded in the database's latest results (--sarif-add-query-help)
+      if (db) {
+        for (const suffix of ["security", "taint", "results"]) {
+          let sarif: any;
+          try {
+            sarif = JSON.parse(await readFile(join(CODEQL_DB_DIR, `${db.name}_${suffix}.sarif`), "utf-8"));
+          } catch {
+            continue;
+          }
+          for (const run of sarif.runs || []) {
+            const rule = collectRules(run).get(rule_id);
+            if (rule?.help) {
+              return {
+                content: [{ type: "text", text: `# ${rule.id}${rule.name ? `: ${rule.name}` : ""}\n\n${rule.help}` }],
+              };
+            }
+          }
+        }
+      }
+
+      const language = args.language
+        ? codeqlLanguage(args.language)
+        : db ? codeqlLanguage(db.language) : ruleLanguage(rule_id);
+      if (!language) {
+        throw new Error(`Cannot tell the language of '${rule_id}'; pass language or database_name`);
+      }
+
+      const suiteRef = securitySuite(language, "security-and-quality");
+      const rule = (await this.resolveRules(suiteRef, options)).find(r => r.id === rule_id);
+      if (!rule) {
+        throw new Error(`Rule '${rule_id}' is not in ${suiteRef}`);
+      }
+
+      let help: string;
+      try {
+        const { stdout } = await this.runCodeQL(["generate", "query-help", "--format=markdown", rule.path], { signal: options.signal });
+        help = stdout.trim();
+      } catch {
+        // Not every query ships a .qhelp file
+        help = rule.description || "No help available for this rule.";
+      }
+
+      const metadata = [
+        rule.kind ? `- Kind: ${rule.kind}` : undefined,
+        rule.severity ? `- Severity: ${rule.severity}` : undefined,
+        rule.precision ? `- Precision: ${rule.precision}` : undefined,
+        rule.securitySeverity !== undefined ? `- Security severity: ${rule.securitySeverity}` : undefined,
+        rule.cwes.length > 0 ? `- CWE: ${rule.cwes.join(", ")}` : undefined,
+        rule.tags.length > 0 ? `- Tags: ${rule.tags.join(", ")}` : undefined,
+        `- Query: ${rule.path}`,
+      ].filter(Boolean).join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `# ${rule.id}${rule.name ? `: ${rule.name}` : ""}\n\n${metadata}\n\n${help}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to describe rule: ${error.message}`);
+    }
+  }
+
+  private async handleFindPatterns(args: any, options: RunOptions = {}) {
+    const {
+      database_name,
+      pattern_type,
+      max_complexity = 10,
+      max_lines = 50,
+      min_statements = 5,
+      limit = 50,
+    } = args;
+
+    const db = this.databases.get(database_name);
+    if (!db) {
+      throw new Error(`Database '${database_name}' not found`);
+    }
+
+    // Each pattern query selects (name, file, line, metric, detail); thresholds are applied here
+    const patterns: Record<string, { metric: string; keep: (metric: number) => boolean }> = {
+      "unused-code": { metric: "lines", keep: () => true },
+      "duplicate-code": { metric: "statements", keep: (metric) => metric >= min_statements },
+      "complex-functions": { metric: "cyclomatic_complexity", keep: (metric) => metric > max_complexity },
+      "long-methods": { metric: "lines", keep: (metric) => metric > max_lines },
+      "dead-code": { metric: "lines", keep: () => true },
+    };
+
+    const pattern = patterns[pattern_type];
+    if (!pattern) {
+      throw new Error(`Unknown pattern type: ${pattern_type}`);
+    }
+
+    const language = codeqlLanguage(db.language);
+    const queryFile = join(PROJECT_ROOT, "queries", "patterns", language, `${pattern_type}.ql`);
+    try {
+      await access(queryFile);
+    } catch {
+      throw new Error(`Pattern '${pattern_type}' is not available for ${db.language}. Pattern queries are expected in queries/patterns/${language}/`);
+    }
+
+    try {
+      const { rows } = await this.runQueryForRows(queryFile, db, options);
+
+      let matches = rows
+        .map(([name, file, line, metric, detail]) => ({
+          name: String(name),
+          file: String(file),
+          line: Number(line),
+          [pattern.metric]: Number(metric),
+          detail: String(detail ?? ""),
+        }))
+        .filter(match => pattern.keep(match[pattern.metric] as number));
+
+      let result: any;
+      if (pattern_type === "duplicate-code") {
+        // Group functions that share a statement-structure fingerprint
+        const groups = new Map<string, typeof matches>();
+        for (const match of matches) {
+          const group = groups.get(match.detail) || [];
+          group.push(match);
+          groups.set(match.detail, group);
+        }
+        const duplicates = Array.from(groups.values())
+          .filter(group => group.length > 1)
+          .sort((a, b) => (b[0][pattern.metric] as number) - (a[0][pattern.metric] as number));
+        result = {
+          total_groups: duplicates.length,
+          groups: duplicates.slice(0, limit).map(group =>
+            group.map(({ detail, ...match }) => match)
+          ),
+        };
+      } else {
+        if (pattern_type === "complex-functions" || pattern_type === "long-methods") {
+          matches.sort((a, b) => (b[pattern.metric] as number) - (a[pattern.metric] as number));
+        } else {
+          matches.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+        }
+        result = {
+          total: matches.length,
+          matches: matches.slice(0, limit).map(({ detail, ...match }) =>
+            pattern_type === "dead-code" ? { ...match, statement: detail } : match
+          ),
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Pattern '${pattern_type}' results for '${database_name}':\n\n${JSON.stringify(result, null, 2)}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(
+        `Failed to find patterns: ${error.message}\n${error.stderr || ""}`
+      );
+    }
+  }
+
+  private async handleGetMetrics(args: any) {
+    const { database_name } = args;
+
+    const db = this.databases.get(database_name);
+    if (!db) {
+      throw new Error(`Database '${database_name}' not found`);
+    }
+
+    try {
+      // Get database metadata
+      const { stdout: resolveOutput } = await execFileAsync(CODEQL_PATH, [
+        "resolve",
+        "database",
+        db.path,
+      ]);
+      
+      const dbInfo = JSON.parse(resolveOutput);
+      
+      // Get database size
+      const { stdout: sizeOutput } = await execFileAsync("du", [
+        "-sh",
+        db.path,
+      ]);
+      const size = sizeOutput.trim().split("\t")[0];
+
+      // Count files in source archive if available
+      let fileCount = "N/A";
+      if (dbInfo.sourceArchiveZip) {
+        try {
+          const { stdout: zipList } = await execFileAsync("unzip", [
+            "-l",
+            dbInfo.sourceArchiveZip,
+          ]);
+          const lines = zipList.split("\n");
+          const fileCountMatch = lines[lines.length - 2]?.match(/(\d+)\s+file/);
+          if (fileCountMatch) {
+            fileCount = fileCountMatch[1];
+          }
+        } catch {
+          // If unzip fails, skip file count
+        }
+      }
+
+      const metrics = {
+        name: database_name,
+        language: dbInfo.languages?.[0] || db.language,
+        sourceLocation: dbInfo.sourceLocationPrefix,
+        size,
+        fileCount,
+        created: db.created,
+        datasetFolder: dbInfo.datasetFolder,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Database Metrics for '${database_name}':\n\n${JSON.stringify(metrics, null, 2)}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(
+        `Failed to get metrics: ${error.message}\n${error.stderr || ""}`
+      );
+    }
+  }
+
+  private async handleDeleteDatabase(args: any) {
+    const { database_name } = args;
+
+    const db = this.databases.get(database_name);
+    if (!db) {
       throw new Error(`Database '${database_name}' not found`);
     }
 
@@ -867,6 +2636,13 @@ class CodeQLMCPServer {
       // Delete from map
       this.databases.delete(database_name);
       await this.saveDatabases();
+      await this.cache.clear(database_name);
+      if (await postgres.testConnection()) {
+        // Cascades to the database's graph rows
+        await postgres.ensureSchema()
+          .then(() => postgres.clearDatabase(database_name))
+          .catch(error => console.error("Failed to remove graph data:", error));
+      }
 
       // Delete directory
       const { execSync } = await import("child_process");
@@ -885,7 +2661,7 @@ class CodeQLMCPServer {
     }
   }
 
-  private async handleUpgradeDatabase(args: any) {
+  private async handleUpgradeDatabase(args: any, options: RunOptions = {}) {
     const { database_name } = args;
 
     const db = this.databases.get(database_name);
@@ -898,7 +2674,10 @@ class CodeQLMCPServer {
         "database",
         "upgrade",
         db.path,
-      ]);
+      ], options);
+
+      // Results computed against the old schema are no longer valid
+      await this.cache.clear(database_name);
 
       return {
         content: [
@@ -952,54 +2731,53 @@ class CodeQLMCPServer {
   }
 
   private async handleExportResults(args: any) {
-    const { result_file, output_format, output_path } = args;
+    const { result_file, output_format, output_path, include_triaged = false, rules, min_level, path_glob } = args;
 
     try {
       // Read SARIF file
       const sarifContent = await readFile(result_file, "utf-8");
       const sarif = JSON.parse(sarifContent);
 
+      const { visible, hidden } = this.applyTriage(parseFindings(sarif), include_triaged);
+      const pathPattern = path_glob ? globToRegExp(path_glob) : null;
+      const selected = filterFindings(visible, { minLevel: min_level }).filter(finding =>
+        (!rules || rules.length === 0 || rules.includes(finding.rule)) &&
+        (!pathPattern || pathPattern.test(finding.locations[0]?.file || ""))
+      );
+      const rows: ExportRow[] = selected.map(finding => ({
+        fingerprint: finding.fingerprint,
+        rule: finding.rule,
+        message: finding.message,
+        level: finding.level,
+        file: finding.locations[0]?.file || "",
+        line: finding.locations[0]?.line ?? "",
+        triage: finding.triage ? `${finding.triage.status} (${finding.triage.author}): ${finding.triage.comment}` : undefined,
+        paths: finding.paths.length > 0 ? finding.paths : undefined,
+      }));
+
       let exportContent = "";
 
       if (output_format === "csv") {
-        // Convert to CSV
-        exportContent = "Rule,Message,Level,File,Line\n";
-        for (const run of sarif.runs || []) {
-          for (const result of run.results || []) {
-            const file = result.locations?.[0]?.physicalLocation?.artifactLocation?.uri || "";
-            const line = result.locations?.[0]?.physicalLocation?.region?.startLine || "";
-            exportContent += `"${result.ruleId}","${result.message.text}","${result.level || 'warning'}","${file}","${line}"\n`;
-          }
-        }
+        exportContent = toCsv(rows);
       } else if (output_format === "json") {
-        // Simplified JSON
-        const results = [];
-        for (const run of sarif.runs || []) {
-          for (const result of run.results || []) {
-            results.push({
-              rule: result.ruleId,
-              message: result.message.text,
-              level: result.level || "warning",
-              file: result.locations?.[0]?.physicalLocation?.artifactLocation?.uri,
-              line: result.locations?.[0]?.physicalLocation?.region?.startLine,
-            });
-          }
-        }
-        exportContent = JSON.stringify(results, null, 2);
+        exportContent = toJson(rows);
       } else if (output_format === "markdown") {
-        // Convert to Markdown
-        exportContent = "# CodeQL Analysis Results\n\n";
-        for (const run of sarif.runs || []) {
-          exportContent += `## ${run.tool?.driver?.name || 'CodeQL'}\n\n`;
-          exportContent += "| Rule | Message | Level | Location |\n";
-          exportContent += "|------|---------|-------|----------|\n";
-          for (const result of run.results || []) {
-            const file = result.locations?.[0]?.physicalLocation?.artifactLocation?.uri || "";
-            const line = result.locations?.[0]?.physicalLocation?.region?.startLine || "";
-            const location = line ? `${file}:${line}` : file;
-            exportContent += `| ${result.ruleId} | ${result.message.text} | ${result.level || 'warning'} | ${location} |\n`;
-          }
-        }
+        exportContent = toMarkdown("CodeQL Analysis Results", [
+          { heading: sarif.runs?.[0]?.tool?.driver?.name || "CodeQL", rows },
+        ]);
+      } else if (output_format === "junit") {
+        // Rules that ran without findings become passing test cases
+        const ranRules = (sarif.runs || []).flatMap((run: any) => Array.from(collectRules(run).keys()) as string[])
+          .filter((rule: string) => !rules || rules.length === 0 || rules.includes(rule));
+        exportContent = toJUnit(rows, ranRules);
+      } else if (output_format === "gitlab") {
+        exportContent = toGitLabCodeQuality(rows);
+      } else if (output_format === "codeclimate") {
+        exportContent = toCodeClimate(rows);
+      } else if (output_format === "html") {
+        exportContent = toHtml("CodeQL Analysis Results", rows);
+      } else {
+        throw new Error(`Unsupported output format '${output_format}'`);
       }
 
       // Write to output file
@@ -1009,7 +2787,9 @@ class CodeQLMCPServer {
         content: [
           {
             type: "text",
-            text: `Results exported successfully to ${output_path} in ${output_format} format`,
+            text: `${rows.length} finding(s) exported successfully to ${output_path} in ${output_format} format` +
+              (selected.length < visible.length ? `\n\n${visible.length - selected.length} finding(s) excluded by rules/min_level/path_glob` : "") +
+              (hidden > 0 ? `\n\n${hidden} triaged finding(s) omitted (set include_triaged to export them)` : ""),
           },
         ],
       };
@@ -1018,82 +2798,627 @@ class CodeQLMCPServer {
     }
   }
 
-  private async handleFindFunction(args: any) {
-    const { database_name, function_name, limit = 50 } = args;
+  /**
+   * SARIF file given directly or the latest analyze_security output of a
+   * database. `role` prefixes the argument names in errors (base_sarif);
+   * without it they are sarif_file and database_name.
+   */
+  private async resolveSarifFile(sarifFile: string | undefined, databaseName: string | undefined, role?: string): Promise<string> {
+    if (sarifFile) {
+      return sarifFile;
+    }
+    if (!databaseName) {
+      throw new Error(role ? `Provide ${role}_sarif or ${role}_database` : "Provide sarif_file or database_name");
+    }
+    if (!this.databases.has(databaseName)) {
+      throw new Error(`Database '${databaseName}' not found`);
+    }
 
-    const db = this.databases.get(database_name);
-    if (!db) {
-      throw new Error(`Database '${database_name}' not found`);
+    const file = join(CODEQL_DB_DIR, `${databaseName}_security.sarif`);
+    try {
+      await access(file);
+    } catch {
+      throw new Error(`No analysis results for '${databaseName}'. Run analyze_security on it first.`);
+    }
+    return file;
+  }
+
+  private async handleDiffResults(args: any) {
+    const { base_sarif, head_sarif, base_database, head_database, output_format, output_path, limit = 50 } = args;
+
+    if (output_format && !output_path) {
+      throw new Error("output_path is required when output_format is given");
     }
 
     try {
-      // Create a temporary CodeQL query to find functions
-      const queryDir = join(CODEQL_DB_DIR, ".queries");
-      await mkdir(queryDir, { recursive: true });
+      const baseFile = await this.resolveSarifFile(base_sarif, base_database, "base");
+      const headFile = await this.resolveSarifFile(head_sarif, head_database, "head");
+
+      const base = parseFindings(JSON.parse(await readFile(baseFile, "utf-8")));
+      const head = parseFindings(JSON.parse(await readFile(headFile, "utf-8")));
+      const diff = diffFindings(base, head);
+
+      const toRow = (finding: Finding, status: string): ExportRow => ({
+        status,
+        rule: finding.rule,
+        message: finding.message,
+        level: finding.level,
+        file: finding.locations[0]?.file || "",
+        line: finding.locations[0]?.line ?? "",
+        paths: finding.paths.length > 0 ? finding.paths : undefined,
+      });
 
-      // Create language-specific qlpack.yml for this query
-      const qlpackPath = join(queryDir, "qlpack.yml");
-      let libraryDep = "";
-      
-      if (db.language === "javascript" || db.language === "typescript") {
-        libraryDep = "codeql/javascript-all";
-      } else if (db.language === "python") {
-        libraryDep = "codeql/python-all";
-      } else if (db.language === "java") {
-        libraryDep = "codeql/java-all";
-      } else if (db.language === "cpp" || db.language === "c") {
-        libraryDep = "codeql/cpp-all";
-      } else if (db.language === "go") {
-        libraryDep = "codeql/go-all";
-      } else if (db.language === "csharp") {
-        libraryDep = "codeql/csharp-all";
-      } else if (db.language === "ruby") {
-        libraryDep = "codeql/ruby-all";
+      if (output_format) {
+        const sections = [
+          { heading: `New (${diff.added.length})`, rows: diff.added.map(f => toRow(f, "new")) },
+          { heading: `Fixed (${diff.fixed.length})`, rows: diff.fixed.map(f => toRow(f, "fixed")) },
+          { heading: `Persisting (${diff.persisting.length})`, rows: diff.persisting.map(f => toRow(f, "persisting")) },
+        ];
+        const rows = sections.flatMap(section => section.rows);
+
+        let exportContent = "";
+        if (output_format === "csv") {
+          exportContent = toCsv(rows);
+        } else if (output_format === "json") {
+          exportContent = toJson(rows);
+        } else if (output_format === "markdown") {
+          exportContent = toMarkdown("CodeQL Analysis Diff", sections);
+        }
+        await writeFile(output_path, exportContent);
       }
 
-      const qlpackContent = `name: codeql-mcp/queries
-version: 1.0.0
-libraryPathDependencies:
-  - ${libraryDep}
-`;
-      await writeFile(qlpackPath, qlpackContent);
+      const list = (findings: Finding[]) => findings.slice(0, limit).map(f => {
+        const loc = f.locations[0];
+        const location = loc?.file ? `${loc.file}${loc.line ? `:${loc.line}` : ""}` : "(no location)";
+        return `  [${f.level}] ${f.rule} ${location} - ${f.message}`;
+      }).join("\n");
+
+      let output = `Diff of ${headFile} against ${baseFile}:\n\n` +
+        `  New: ${diff.added.length}\n` +
+        `  Fixed: ${diff.fixed.length}\n` +
+        `  Persisting: ${diff.persisting.length}\n`;
+      if (diff.added.length > 0) {
+        output += `\nNew findings:\n${list(diff.added)}\n`;
+      }
+      if (diff.fixed.length > 0) {
+        output += `\nFixed findings:\n${list(diff.fixed)}\n`;
+      }
+      if (output_format) {
+        output += `\nDiff exported to ${output_path} in ${output_format} format\n`;
+      }
 
-      const queryFile = join(queryDir, `find-function-${Date.now()}.ql`);
-      
-      // Generate query based on language
-      let query = "";
-      const searchPattern = function_name.toLowerCase();
-      
-      if (db.language === "javascript" || db.language === "typescript") {
-        query = `
-import javascript
+      return {
+        content: [{ type: "text", text: output }],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to diff results: ${error.message}`);
+    }
+  }
 
-from Function f
-where f.getName().toLowerCase().matches("%${searchPattern}%")
-select f, f.getName() as name, f.getFile().getRelativePath() as file, 
-       f.getLocation().getStartLine() as line, f.getNumParameter() as params
-`;
-      } else if (db.language === "python") {
-        query = `
-import python
+  private async handleComplianceReport(args: any) {
+    const { database_name, sarif_file, output_format = "markdown", output_path, include_triaged = false } = args;
 
-from Function f
-where f.getName().toLowerCase().matches("%${searchPattern}%")
-select f, f.getName() as name, f.getFile().getRelativePath() as file,
-       f.getLocation().getStartLine() as line, f.getNumParameter() as params
-`;
-      } else if (db.language === "java") {
-        query = `
-import java
+    try {
+      const sarifFile = await this.resolveSarifFile(sarif_file, database_name);
+      const sarif = JSON.parse(await readFile(sarifFile, "utf-8"));
+
+      const { visible, hidden } = this.applyTriage(parseFindings(sarif), include_triaged);
+      const rules = (sarif.runs || []).flatMap((run: any) => Array.from(collectRules(run).values()));
+      const report = buildComplianceReport(
+        `Compliance Report: ${database_name || basename(sarifFile)}`,
+        visible,
+        rules
+      );
 
-from Method m
-where m.getName().toLowerCase().matches("%${searchPattern}%")
-select m, m.getName() as name, m.getFile().getRelativePath() as file,
-       m.getLocation().getStartLine() as line, m.getNumberOfParameters() as params
-`;
-      } else if (db.language === "cpp" || db.language === "c") {
-        query = `
-import cpp
+      let content = output_format === "json" ? JSON.stringify(report, null, 2) : complianceMarkdown(report);
+      if (hidden > 0 && output_format !== "json") {
+        content += `\n${hidden} triaged finding(s) not counted (set include_triaged to count them)\n`;
+      }
+      if (output_path) {
+        await writeFile(output_path, content);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: (output_path ? `Report written to ${output_path}\n\n` : "") + content,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to build compliance report: ${error.message}`);
+    }
+  }
+
+  private async handleTriageFinding(args: any) {
+    const { rule, database_name, file, line, status, comment = "", author = process.env.USER || "unknown" } = args;
+    let { fingerprint } = args;
+    let finding: Finding | undefined;
+
+    if (status !== "untriaged" && !TRIAGE_STATUSES.includes(status)) {
+      throw new Error(`Invalid triage status '${status}' (expected ${[...TRIAGE_STATUSES, "untriaged"].join(", ")})`);
+    }
+
+    if (!fingerprint) {
+      if (!database_name || !file || line === undefined) {
+        throw new Error("Identify the finding by fingerprint, or by database_name, file and line");
+      }
+      const sarifFile = await this.resolveSarifFile(undefined, database_name);
+      const findings = parseFindings(JSON.parse(await readFile(sarifFile, "utf-8")));
+      finding = findings.find(f =>
+        f.rule === rule && f.locations[0]?.file === file && f.locations[0]?.line === line
+      );
+      if (!finding) {
+        throw new Error(`No ${rule} finding at ${file}:${line} in the latest analysis of '${database_name}'`);
+      }
+      fingerprint = finding.fingerprint;
+    }
+
+    // A mistyped fingerprint would record a decision that never matches
+    let stored: any;
+    let unchecked = false;
+    if (!finding && status !== "untriaged") {
+      if (await postgres.testConnection()) {
+        await postgres.ensureSchema();
+        [stored] = (await postgres.queryFindings({ databaseName: database_name, ruleId: rule, fingerprint, limit: 1 })).rows;
+        if (!stored) {
+          throw new Error(
+            `No stored ${rule} finding has fingerprint '${fingerprint}'${database_name ? ` in '${database_name}'` : ""}. ` +
+            "Check both with query_findings, or identify the finding by database_name, file and line."
+          );
+        }
+      } else {
+        unchecked = true;
+      }
+    }
+
+    if (status === "untriaged") {
+      const removed = await this.triage.remove(rule, fingerprint);
+      return {
+        content: [
+          {
+            type: "text",
+            text: removed ? `Removed triage decision for ${rule} (${fingerprint})` : `No triage decision recorded for ${rule} (${fingerprint})`,
+          },
+        ],
+      };
+    }
+
+    await this.triage.set({
+      rule,
+      fingerprint,
+      status: status as TriageStatus,
+      comment,
+      author,
+      updated: new Date().toISOString(),
+      database_name: database_name ?? stored?.database_name,
+      file: finding?.locations[0]?.file ?? stored?.file ?? file,
+      line: finding?.locations[0]?.line ?? stored?.line ?? line,
+      message: finding?.message ?? stored?.message,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Marked ${rule} (${fingerprint}) as ${status} by ${author}` +
+            (SUPPRESSING_STATUSES.includes(status) ? "\n\nThis finding is now hidden from analyze_security and export_results by default." : "") +
+            (unchecked ? "\n\nWarning: the findings store is unavailable, so the rule and fingerprint were not checked against a known finding." : ""),
+        },
+      ],
+    };
+  }
+
+  private async handleListTriage(args: any) {
+    const { status, rule, database_name } = args || {};
+
+    const decisions = this.triage.list().filter(d =>
+      (!status || d.status === status) &&
+      (!rule || d.rule === rule) &&
+      (!database_name || d.database_name === database_name)
+    );
+
+    if (decisions.length === 0) {
+      return {
+        content: [{ type: "text", text: "No triage decisions found." }],
+      };
+    }
+
+    const list = decisions.map(d => {
+      const location = d.file ? ` ${d.file}${d.line ? `:${d.line}` : ""}` : "";
+      return `- [${d.status}] ${d.rule}${location} by ${d.author} on ${d.updated}\n` +
+        `  fingerprint: ${d.fingerprint}\n` +
+        (d.comment ? `  comment: ${d.comment}\n` : "");
+    }).join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Triage decisions (${decisions.length}):\n\n${list}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Source archive of a database, located via `codeql resolve database`
+   */
+  private async sourceArchive(databaseName: string): Promise<SourceArchive> {
+    const db = this.databases.get(databaseName);
+    if (!db) {
+      throw new Error(`Database '${databaseName}' not found`);
+    }
+
+    const { stdout } = await execFileAsync(CODEQL_PATH, ["resolve", "database", db.path]);
+    const dbInfo = JSON.parse(stdout);
+    return locateArchive(db.path, dbInfo.sourceLocationPrefix || "", dbInfo.sourceArchiveZip);
+  }
+
+  private async handleExplainFinding(args: any) {
+    const { database_name, fingerprint, rule, file, line, sarif_file, context_lines = 1, max_paths = 3 } = args;
+
+    if (!database_name) {
+      throw new Error("database_name is required: its source archive provides the snippets");
+    }
+    if (!fingerprint && (!rule || !file || line === undefined)) {
+      throw new Error("Identify the finding by fingerprint, or by rule, file and line");
+    }
+
+    try {
+      const sarifFile = await this.resolveSarifFile(sarif_file, database_name);
+      const findings = parseFindings(JSON.parse(await readFile(sarifFile, "utf-8")));
+      const finding = fingerprint
+        ? findings.find(f => f.fingerprint === fingerprint)
+        : findings.find(f => f.rule === rule && f.locations[0]?.file === file && f.locations[0]?.line === line);
+      if (!finding) {
+        throw new Error(`Finding not found in ${sarifFile}`);
+      }
+
+      const loc = finding.locations[0];
+      let output = `[${finding.level}] ${finding.rule}${finding.ruleName ? ` (${finding.ruleName})` : ""}\n` +
+        `${loc?.file || "(no location)"}${loc?.line ? `:${loc.line}` : ""} - ${finding.message}\n`;
+
+      if (finding.paths.length === 0) {
+        output += `\nThis finding has no data-flow path (the query is not a path-problem query).\n`;
+        return {
+          content: [{ type: "text", text: output }],
+        };
+      }
+
+      let archive: SourceArchive | null = null;
+      try {
+        archive = await this.sourceArchive(database_name);
+      } catch (error: any) {
+        output += `\nSource snippets unavailable: ${error.message}\n`;
+      }
+
+      // Each file is read from the archive once, however many steps point into it
+      const sources = new Map<string, string | null>();
+      const readSource = async (path: string) => {
+        if (!sources.has(path)) {
+          sources.set(path, archive ? await readArchiveFile(archive, path) : null);
+        }
+        return sources.get(path)!;
+      };
+
+      // Snippets come from database_name's archive, so a SARIF file from
+      // another database would show unrelated lines
+      if (sarif_file && archive && loc?.file && await readSource(loc.file) === null) {
+        throw new Error(`${loc.file} is not in the source archive of '${database_name}'. Pass the database ${sarif_file} was produced from as database_name.`);
+      }
+
+      const shown = finding.paths.slice(0, max_paths);
+      for (const [index, steps] of shown.entries()) {
+        output += `\nPath ${index + 1} of ${finding.paths.length} (${steps.length} steps):\n`;
+        for (const [n, step] of steps.entries()) {
+          const role = n === 0 ? "source" : n === steps.length - 1 ? "sink" : "step";
+          const position = `${step.file || "(unknown)"}${step.line ? `:${step.line}` : ""}${step.column ? `:${step.column}` : ""}`;
+          output += `\n  ${n + 1}. [${role}] ${position}${step.message ? ` - ${step.message}` : ""}\n`;
+
+          if (step.file && step.line) {
+            const content = await readSource(step.file);
+            if (content !== null) {
+              const snippet = numberedLines(content, step.line - context_lines, step.line + context_lines, step.line);
+              output += snippet.split("\n").map(l => `     ${l}`).join("\n") + "\n";
+            }
+          }
+        }
+      }
+      if (shown.length < finding.paths.length) {
+        output += `\n${finding.paths.length - shown.length} more path(s) not shown (raise max_paths to see them)\n`;
+      }
+
+      return {
+        content: [{ type: "text", text: output }],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to explain finding: ${error.message}`);
+    }
+  }
+
+  private async handleListSourceFiles(args: any) {
+    const { database_name, pattern, limit = 500 } = args;
+
+    try {
+      const archive = await this.sourceArchive(database_name);
+      let files = await listArchiveFiles(archive);
+      if (pattern) {
+        const regex = globToRegExp(pattern);
+        files = files.filter(f => regex.test(f.path));
+      }
+
+      if (files.length === 0) {
+        return {
+          content: [{ type: "text", text: `No source files${pattern ? ` matching '${pattern}'` : ""} in '${database_name}'` }],
+        };
+      }
+
+      const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+      const shown = files.slice(0, limit);
+      const list = shown.map(f => `  ${f.path} (${f.size} bytes)`).join("\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Source files in '${database_name}' (root ${archive.sourceLocationPrefix || "/"}): ` +
+              `${files.length} file(s), ${totalBytes} bytes\n\n${list}` +
+              (shown.length < files.length ? `\n\n... and ${files.length - shown.length} more (narrow with pattern or raise limit)` : ""),
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list source files: ${error.message}`);
+    }
+  }
+
+  /**
+   * Contents of a source file from a database's archive
+   */
+  private async readSourceFile(databaseName: string, file: string): Promise<string> {
+    const archive = await this.sourceArchive(databaseName);
+    const content = await readArchiveFile(archive, file);
+    if (content === null) {
+      throw new Error(`'${file}' is not in the source archive of '${databaseName}'. Use list_source_files to see available paths.`);
+    }
+    return content;
+  }
+
+  private async handleReadSourceFile(args: any) {
+    const { database_name, file, start_line = 1 } = args;
+    const end_line = args.end_line ?? start_line + 499;
+
+    if (end_line < start_line) {
+      throw new Error("end_line must not be before start_line");
+    }
+
+    try {
+      const content = await this.readSourceFile(database_name, file);
+      const total = content.split(/\r?\n/).length;
+      const last = Math.min(end_line, total);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${file} (lines ${start_line}-${last} of ${total}):\n\n${numberedLines(content, start_line, last)}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to read source file: ${error.message}`);
+    }
+  }
+
+  private async handleGetSnippet(args: any) {
+    const { database_name, file, line, context = 5 } = args;
+
+    try {
+      const content = await this.readSourceFile(database_name, file);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${file}:${line}\n\n${numberedLines(content, line - context, line + context, line)}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get snippet: ${error.message}`);
+    }
+  }
+
+  private async handleCreateModelPack(args: any) {
+    const { language, name, models } = args;
+
+    try {
+      const pack = await this.models.create(codeqlLanguage(language), name, models || {});
+      const counts = EXTENSIBLES
+        .filter(key => (pack.models[key] || []).length > 0)
+        .map(key => `${key}: ${pack.models[key]!.length}`)
+        .join(", ");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Model pack ${pack.packName} written to ${pack.path}\n\n` +
+              `Models: ${counts}\n\n` +
+              `It applies to run_query, analyze_security and run_taint_analysis on ${pack.language} databases.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to create model pack: ${error.message}`);
+    }
+  }
+
+  private async handleListModelPacks(args: any) {
+    const { language, show_models = false } = args || {};
+
+    const packs = await this.models.list(language ? codeqlLanguage(language) : undefined);
+    if (packs.length === 0) {
+      return {
+        content: [{ type: "text", text: "No model packs found. Create one using the create_model_pack tool." }],
+      };
+    }
+
+    const list = packs.map(pack => {
+      let entry = `- ${pack.language}/${pack.name} (${pack.packName})\n  Path: ${pack.path}\n`;
+      if (pack.error) {
+        entry += `  Unreadable: ${pack.error}\n`;
+      }
+      for (const key of EXTENSIBLES) {
+        const rows = pack.models[key] || [];
+        if (rows.length === 0) {
+          continue;
+        }
+        entry += `  ${key}: ${rows.length}\n`;
+        if (show_models) {
+          entry += rows.map(row => `    ${JSON.stringify(row)}`).join("\n") + "\n";
+        }
+      }
+      return entry;
+    }).join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Model packs (${packs.length}):\n\n${list}`,
+        },
+      ],
+    };
+  }
+
+  private async handleValidateModelPack(args: any) {
+    const { name } = args;
+    const language = codeqlLanguage(args.language);
+
+    const pack = await this.models.get(language, name);
+    if (!pack) {
+      throw new Error(`Model pack '${language}/${name}' not found`);
+    }
+
+    const problems = validateModels(language, pack.models);
+    const columns = modelColumns(language);
+    const layout = EXTENSIBLES.map(key => `  ${key}: [${columns[key].join(", ")}]`).join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: problems.length === 0
+            ? `Model pack ${pack.packName} is valid`
+            : `Model pack ${pack.packName} has ${problems.length} problem(s):\n\n` +
+              problems.map(p => `  - ${p}`).join("\n") +
+              `\n\nExpected columns for ${language}:\n${layout}`,
+        },
+      ],
+    };
+  }
+
+  private async handleDeleteModelPack(args: any) {
+    const { name } = args;
+    const language = codeqlLanguage(args.language);
+
+    const removed = await this.models.delete(language, name);
+    if (!removed) {
+      throw new Error(`Model pack '${language}/${name}' not found`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Model pack '${language}/${name}' deleted`,
+        },
+      ],
+    };
+  }
+
+  private async handleFindFunction(args: any, options: RunOptions = {}) {
+    const { database_name, function_name, limit = 50 } = args;
+
+    const db = this.databases.get(database_name);
+    if (!db) {
+      throw new Error(`Database '${database_name}' not found`);
+    }
+
+    const tempFiles: string[] = [];
+
+    try {
+      // Create a temporary CodeQL query to find functions
+      const queryDir = join(CODEQL_DB_DIR, ".queries");
+      await mkdir(queryDir, { recursive: true });
+
+      // Create language-specific qlpack.yml for this query
+      const qlpackPath = join(queryDir, "qlpack.yml");
+      let libraryDep = "";
+      
+      if (db.language === "javascript" || db.language === "typescript") {
+        libraryDep = "codeql/javascript-all";
+      } else if (db.language === "python") {
+        libraryDep = "codeql/python-all";
+      } else if (db.language === "java") {
+        libraryDep = "codeql/java-all";
+      } else if (db.language === "cpp" || db.language === "c") {
+        libraryDep = "codeql/cpp-all";
+      } else if (db.language === "go") {
+        libraryDep = "codeql/go-all";
+      } else if (db.language === "csharp") {
+        libraryDep = "codeql/csharp-all";
+      } else if (db.language === "ruby") {
+        libraryDep = "codeql/ruby-all";
+      }
+
+      const qlpackContent = `name: codeql-mcp/queries
+version: 1.0.0
+libraryPathDependencies:
+  - ${libraryDep}
+`;
+      await writeFile(qlpackPath, qlpackContent);
+
+      const queryFile = join(queryDir, `find-function-${Date.now()}.ql`);
+      tempFiles.push(queryFile);
+      
+      // Generate query based on language
+      let query = "";
+      const searchPattern = function_name.toLowerCase();
+      
+      if (db.language === "javascript" || db.language === "typescript") {
+        query = `
+import javascript
+
+from Function f
+where f.getName().toLowerCase().matches("%${searchPattern}%")
+select f, f.getName() as name, f.getFile().getRelativePath() as file, 
+       f.getLocation().getStartLine() as line, f.getNumParameter() as params
+`;
+      } else if (db.language === "python") {
+        query = `
+import python
+
+from Function f
+where f.getName().toLowerCase().matches("%${searchPattern}%")
+select f, f.getName() as name, f.getFile().getRelativePath() as file,
+       f.getLocation().getStartLine() as line, f.getNumParameter() as params
+`;
+      } else if (db.language === "java") {
+        query = `
+import java
+
+from Method m
+where m.getName().toLowerCase().matches("%${searchPattern}%")
+select m, m.getName() as name, m.getFile().getRelativePath() as file,
+       m.getLocation().getStartLine() as line, m.getNumberOfParameters() as params
+`;
+      } else if (db.language === "cpp" || db.language === "c") {
+        query = `
+import cpp
 
 from Function f
 where f.getName().toLowerCase().matches("%${searchPattern}%")
@@ -1136,41 +3461,24 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
 
       // Run the query and output BQRS with multi-threading
       const bqrsFile = join(queryDir, `results-${Date.now()}.bqrs`);
-      await this.runCodeQL([
-        "query",
-        "run",
-        queryFile,
-        "--database",
-        db.path,
-        "--output",
-        bqrsFile,
-        "--threads=0",  // Use all available CPU cores
-        "--ram=2048",   // Allocate more RAM for faster execution
-      ]);
-
-      // Decode BQRS to CSV
-      const outputFile = join(queryDir, `results-${Date.now()}.csv`);
-      const { stdout: csvOutput } = await execFileAsync(CODEQL_PATH, [
-        "bqrs",
-        "decode",
-        bqrsFile,
-        "--format=csv",
-        "--output",
-        outputFile,
-      ]);
-
-      // Read and parse results
-      let results = "";
-      try {
-        results = await readFile(outputFile, "utf-8");
-      } catch {
-        // If no output file, use stdout
-        results = csvOutput;
-      }
+      tempFiles.push(bqrsFile);
+      await this.withCache(db, "bqrs", { kind: "query", query }, bqrsFile, async () => {
+        await this.runCodeQL([
+          "query",
+          "run",
+          queryFile,
+          "--database",
+          db.path,
+          "--output",
+          bqrsFile,
+          "--threads=0",  // Use all available CPU cores
+          "--ram=2048",   // Allocate more RAM for faster execution
+        ], options);
+      });
 
-      // Parse CSV and format results
-      const lines = results.trim().split("\n");
-      if (lines.length <= 1) {
+      // Decode BQRS into typed rows
+      const { rows } = await this.decodeAllRows(bqrsFile, options);
+      if (rows.length === 0) {
         return {
           content: [
             {
@@ -1181,29 +3489,13 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
         };
       }
 
-      // Skip header and limit results
-      const matches = lines.slice(1, Math.min(limit + 1, lines.length));
+      // Limit results
+      const matches = rows.slice(0, limit);
       
       let formattedResults = `Found ${matches.length} function(s) matching '${function_name}':\n\n`;
       
-      for (const line of matches) {
-        const parts = line.split(",");
-        if (parts.length >= 4) {
-          const name = parts[1]?.replace(/"/g, "");
-          const file = parts[2]?.replace(/"/g, "");
-          const lineNum = parts[3]?.replace(/"/g, "");
-          const params = parts[4]?.replace(/"/g, "") || "0";
-          formattedResults += `📍 ${name}(${params} params) - ${file}:${lineNum}\n`;
-        }
-      }
-
-      // Cleanup temp files
-      try {
-        await unlink(queryFile);
-        await unlink(bqrsFile);
-        await unlink(outputFile);
-      } catch {
-        // Ignore cleanup errors
+      for (const [, name, file, lineNum, params] of matches) {
+        formattedResults += `📍 ${name}(${params ?? 0} params) - ${file}:${lineNum}\n`;
       }
 
       return {
@@ -1218,11 +3510,14 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
       throw new Error(
         `Failed to find functions: ${error.message}\n${error.stderr || ""}`
       );
+    } finally {
+      // Cleanup temp files, including after cancellation
+      await removeTempFiles(tempFiles);
     }
   }
 
-  private async handleBuildGraphIndex(args: any) {
-    const { database_name } = args;
+  private async handleBuildGraphIndex(args: any, options: RunOptions = {}) {
+    const { database_name, changed_files, incremental = false } = args;
 
     const db = this.databases.get(database_name);
     if (!db) {
@@ -1230,6 +3525,7 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
     }
 
     const startTime = Date.now();
+    const tempFiles: string[] = [];
 
     try {
       // Test PostgreSQL connection
@@ -1237,10 +3533,35 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
       if (!pgConnected) {
         throw new Error("PostgreSQL connection failed. Run: ./scripts/setup-postgres.sh");
       }
-
-      // Clear existing data for this database
-      console.error(`Clearing existing data for ${database_name}...`);
-      await postgres.clearDatabase(database_name);
+      await postgres.ensureSchema();
+
+      // Incremental updates keep the current index until the changed files are swapped in
+      let hashes: Map<string, string> | null;
+      let changes: GraphFileChanges | null = null;
+      if (incremental || changed_files) {
+        options.setPhase?.("Comparing file hashes");
+        hashes = await archiveFileHashes(await this.sourceArchive(database_name));
+        changes = await this.graphFileChanges(database_name, hashes, changed_files);
+        if (changes.added.length + changes.modified.length + changes.removed.length === 0) {
+          return {
+            content: [{ type: "text", text: `Graph index for '${database_name}' is up to date (${hashes.size} files unchanged)` }],
+          };
+        }
+      } else {
+        // Clear existing data for this database
+        console.error(`Clearing existing data for ${database_name}...`);
+        options.setPhase?.("Clearing existing graph data");
+        await postgres.clearDatabase(database_name);
+        await postgres.registerGraphDatabase(database_name, db.language, db.path);
+
+        // Hashes let later builds update changed files only
+        hashes = await this.sourceArchive(database_name)
+          .then(archiveFileHashes)
+          .catch(error => {
+            console.error(`Not recording file hashes (incremental updates unavailable): ${error.message}`);
+            return null;
+          });
+      }
 
       const tempDir = join(CODEQL_DB_DIR, ".temp");
       await mkdir(tempDir, { recursive: true });
@@ -1271,7 +3592,7 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
       const queryDir = join(PROJECT_ROOT, "queries", "export", languageDir);
 
       const extractions = [
-        { query: "extract-functions.ql", table: "functions", columns: ["codeql_id", "name", "file", "line", "num_params", "signature"], required: true },
+        { query: "extract-functions.ql", table: "functions", columns: ["codeql_id", "name", "file", "line", "num_params", "signature"], required: true, unique: true },
         { query: "extract-calls.ql", table: "function_calls", columns: ["caller_codeql_id", "callee_codeql_id", "file", "line"], required: false, processRow: (parts: (string | null)[]) => {
           // Extract callee_name from callee_codeql_id for better indexing
           // Format: "unresolved:functionName@file:line" or "Function@file:line"
@@ -1286,14 +3607,20 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
           }
           return [...parts, calleeName];
         }},
-        { query: "extract-classes.ql", table: "classes", columns: ["codeql_id", "name", "file", "line", "parent_codeql_id"], required: false },
-        { query: "extract-methods.ql", table: "class_methods", columns: ["class_codeql_id", "method_codeql_id", "method_name"], required: false },
+        { query: "extract-classes.ql", table: "classes", columns: ["codeql_id", "name", "file", "line", "parent_codeql_id"], required: false, unique: true },
+        { query: "extract-methods.ql", table: "class_methods", columns: ["class_codeql_id", "method_codeql_id", "method_name", "file"], required: false },
+        { query: "extract-variables.ql", table: "variables", columns: ["codeql_id", "name", "file", "line", "scope", "var_type"], required: false, unique: true },
+        { query: "extract-variable-usages.ql", table: "variable_usages", columns: ["variable_codeql_id", "accessor_codeql_id", "file", "line", "access"], required: false },
       ];
 
       const stats: any = {};
+      const extracted: postgres.GraphTableRows[] = [];
 
-      for (const { query, table, columns, required, processRow } of extractions) {
+      for (const [step, { query, table, columns, required, unique, processRow }] of extractions.entries()) {
         console.error(`\nExtracting ${languageDir}/${query}...`);
+        options.signal?.throwIfAborted();
+        options.setPhase?.(`Extracting ${query}`);
+        options.onProgress?.(step, extractions.length, `Extracting ${query}`);
         
         const queryFile = join(queryDir, query);
         
@@ -1311,6 +3638,15 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
         
         const bqrsFile = join(tempDir, `${query}.bqrs`);
         const csvFile = join(tempDir, `${query}.csv`);
+        tempFiles.push(bqrsFile, csvFile);
+
+        // Report the query's own [n/m] evaluation steps as a fraction of this extraction step
+        const onProgress = options.onProgress;
+        const queryOptions: RunOptions = {
+          ...options,
+          onProgress: onProgress && ((progress, total, message) =>
+            onProgress(step + (total ? progress / total : 0), extractions.length, message)),
+        };
 
         // Run extraction query
         await this.runCodeQL([
@@ -1322,443 +3658,778 @@ select m, m.getName() as name, m.getFile().getRelativePath() as file,
           "--output",
           bqrsFile,
           "--threads=0",
-        ]);
+        ], queryOptions);
 
         // Decode to CSV
-        await execFileAsync(CODEQL_PATH, [
+        await this.runCodeQL([
           "bqrs",
           "decode",
           bqrsFile,
           "--format=csv",
           "--output",
           csvFile,
-        ]);
+        ], { signal: options.signal });
 
-        // Import to PostgreSQL
-        console.error(`Importing to ${table}...`);
-        
-        // Add database_name column to CSV
-        const csvContent = await readFile(csvFile, "utf-8");
-        const lines = csvContent.trim().split("\n");
-        const dataLines = lines.slice(1); // Skip header
-        
-        // Build VALUES for batch insert
         // Include callee_name for function_calls if processRow is defined
         const actualColumns = processRow ? ["database_name", ...columns, "callee_name"] : ["database_name", ...columns];
-        const values: (string | null)[][] = [];
-        
-        // Simple CSV parser that handles quoted fields with commas
-        function parseCSVLine(line: string): string[] {
-          const result: string[] = [];
-          let current = "";
-          let inQuotes = false;
-          
-          for (let i = 0; i < line.length; i++) {
-            const char = line[i];
-            const nextChar = line[i + 1];
-            
-            if (char === '"' && !inQuotes) {
-              inQuotes = true;
-            } else if (char === '"' && inQuotes && nextChar === '"') {
-              current += '"';
-              i++; // Skip next quote
-            } else if (char === '"' && inQuotes) {
-              inQuotes = false;
-            } else if (char === ',' && !inQuotes) {
-              result.push(current);
-              current = "";
-            } else {
-              current += char;
-            }
-          }
-          result.push(current); // Add last field
-          return result;
-        }
-        
-        const seenIds = new Set<string>(); // Track unique IDs
         let skippedDuplicates = 0;
-        
-        for (const line of dataLines) {
-          if (line.trim()) {
-            const parts = parseCSVLine(line).map(v => {
-              v = v.trim();
-              // Convert empty strings to null for optional fields
-              return v === "" ? null : v;
-            });
-            
-            // Check for duplicates (first column is the unique ID after database_name)
-            const uniqueId = parts[0];
-            if (uniqueId && seenIds.has(uniqueId)) {
-              skippedDuplicates++;
-              continue; // Skip this duplicate
+
+        async function* importRows() {
+          const seenIds = new Set<string>();
+          let header = true;
+
+          for await (const fields of parseCsv(createReadStream(csvFile, { encoding: "utf-8" }))) {
+            if (header) {
+              header = false;
+              continue;
             }
-            if (uniqueId) {
-              seenIds.add(uniqueId);
+            if (fields.length === 1 && fields[0].trim() === "") {
+              continue;
             }
-            
+
+            // Convert empty strings to null for optional fields
+            const parts = fields.map(v => v.trim() === "" ? null : v.trim());
+
+            // codeql_id must be unique per database in tables keyed by it
+            if (unique) {
+              const uniqueId = parts[0];
+              if (uniqueId && seenIds.has(uniqueId)) {
+                skippedDuplicates++;
+                continue;
+              }
+              if (uniqueId) {
+                seenIds.add(uniqueId);
+              }
+            }
+
             // Apply row processor if defined (e.g., to extract callee_name)
             const rowData = processRow ? processRow(parts) : parts;
-            const row = [database_name, ...rowData];
-            
-            values.push(row);
+            yield [database_name, ...rowData];
           }
         }
 
+        if (changes) {
+          // Imported together once every extraction has run
+          extracted.push({ table, columns: actualColumns, read: importRows });
+          continue;
+        }
+
+        // Stream the CSV into PostgreSQL; COPY runs in one transaction per table
+        console.error(`Importing to ${table}...`);
+        options.setPhase?.(`Importing ${table}`);
+        const imported = await postgres.copyRows(table, actualColumns, importRows());
         if (skippedDuplicates > 0) {
           console.error(`⚠ Skipped ${skippedDuplicates} duplicate entries`);
         }
+        console.error(`  ✓ ${imported} rows imported`);
+
+        stats[table] = imported;
+
+        // Cleanup temp files
+        await removeTempFiles([bqrsFile, csvFile]);
+      }
+
+      if (changes) {
+        console.error("\nReplacing changed files...");
+        options.setPhase?.("Replacing changed files");
+        options.onProgress?.(extractions.length, extractions.length, "Replacing changed files");
+        const files = [...changes.added, ...changes.modified, ...changes.removed];
+        const update = await postgres.replaceGraphFiles(database_name, files, hashes!, extracted);
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+        return {
+          content: [{ type: "text", text: `✓ Graph index updated in ${elapsed}s\n\n${formatGraphUpdate(changes, update)}` }],
+        };
+      }
+
+      // Update foreign key references
+      console.error("\nUpdating relationships...");
+      options.setPhase?.("Updating relationships");
+      options.onProgress?.(extractions.length, extractions.length, "Updating relationships");
+      await postgres.updateForeignKeys(database_name);
+      if (hashes) {
+        await postgres.recordIndexedFiles(database_name, hashes);
+      }
+      await postgres.markGraphIndexed(database_name);
+
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `✓ Graph index built successfully in ${elapsed}s\n\n` +
+                  `Statistics:\n` +
+                  `  Functions: ${stats.functions || 0}\n` +
+                  `  Classes: ${stats.classes || 0}\n` +
+                  `  Function calls: ${stats.function_calls || 0}\n` +
+                  `  Class methods: ${stats.class_methods || 0}\n` +
+                  `  Variables: ${stats.variables || 0}\n` +
+                  `  Variable usages: ${stats.variable_usages || 0}\n\n` +
+                  `Fast queries now available:\n` +
+                  `  - find_function_graph\n` +
+                  `  - find_callers_graph\n` +
+                  `  - find_call_chain_graph\n` +
+                  `  - get_class_hierarchy_graph\n` +
+                  `  - find_variable_graph\n` +
+                  `  - find_variable_usages_graph\n` +
+                  `  - get_graph_stats`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to build graph index: ${error.message}`);
+    } finally {
+      // Leftovers from an extraction that failed or was cancelled mid-way
+      await removeTempFiles(tempFiles);
+    }
+  }
+
+  /**
+   * Files to replace in an incremental graph update: `changedFiles` when
+   * given, otherwise every file whose archive hash differs from the one
+   * recorded when the index was last built or updated
+   */
+  private async graphFileChanges(
+    databaseName: string,
+    hashes: Map<string, string>,
+    changedFiles?: string[]
+  ): Promise<GraphFileChanges> {
+    if (await postgres.getGraphIndexState(databaseName) !== "indexed") {
+      throw new Error(`'${databaseName}' has no complete graph index to update. Run build_graph_index without incremental or changed_files first.`);
+    }
+    const indexed = await postgres.getIndexedFiles(databaseName);
+    if (indexed.size === 0) {
+      throw new Error(`The graph index of '${databaseName}' has no recorded file hashes (it predates incremental updates or was built without a source archive). Run a full build_graph_index once.`);
+    }
+
+    return compareFileHashes(hashes, indexed, changedFiles);
+  }
+
+  /**
+   * Fail with a clear message when the schema is behind the server's
+   * migrations or the database has no complete graph index
+   */
+  private async requireGraphIndex(databaseName: string) {
+    await postgres.ensureSchema();
+
+    const state = await postgres.getGraphIndexState(databaseName);
+    if (state === "missing") {
+      throw new Error(`Graph index not built for '${databaseName}'. Run: build_graph_index ${databaseName}`);
+    }
+    if (state === "incomplete") {
+      throw new Error(`Graph index for '${databaseName}' is incomplete (the last build_graph_index did not finish). Run build_graph_index again.`);
+    }
+  }
+
+  private async handleMigrateGraphSchema(args: any) {
+    const { dry_run = false } = args || {};
+
+    if (!(await postgres.testConnection())) {
+      throw new Error("PostgreSQL connection failed. Run: ./scripts/setup-database.sh");
+    }
+
+    const status = await postgres.getSchemaStatus();
+    let output = `Applied migrations (${status.applied.length}):\n` +
+      (status.applied.map(m => `  ${m.version}_${m.name} (${new Date(m.applied_at).toISOString()})`).join("\n") || "  none") + "\n";
+
+    if (status.modified.length > 0) {
+      output += `\nChanged after being applied (checksum mismatch):\n` +
+        status.modified.map(m => `  ${m.version}_${m.name}`).join("\n") + "\n" +
+        `\nRestore the original migration files, or reset the database with scripts/schema.sql.\n`;
+      return {
+        content: [{ type: "text", text: output }],
+      };
+    }
+
+    if (status.pending.length === 0) {
+      output += `\nSchema is up to date.\n`;
+    } else if (dry_run) {
+      output += `\nPending migrations (${status.pending.length}):\n` +
+        status.pending.map(m => `  ${m.version}_${m.name}`).join("\n") + "\n";
+    } else {
+      const applied = await postgres.migrate();
+      output += `\nApplied now (${applied.length}):\n` +
+        applied.map(m => `  ${m.version}_${m.name}`).join("\n") + "\n";
+    }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  }
+
+  private async handleFindFunctionFast(args: any) {
+    const { database_name, function_name, limit = 50 } = args;
+
+    await this.requireGraphIndex(database_name);
+
+    const result = await postgres.executeQuery(
+      `SELECT name, file, line, num_params, signature
+       FROM functions
+       WHERE database_name = $1
+         AND name % $2
+       ORDER BY similarity(name, $2) DESC, name
+       LIMIT $3`,
+      [database_name, function_name, limit]
+    );
+
+    if (result.rows.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No functions found matching '${function_name}'`,
+          },
+        ],
+      };
+    }
+
+    let output = `Found ${result.rows.length} function(s) matching '${function_name}':\n\n`;
+    
+    for (const row of result.rows) {
+      output += `📍 ${row.name}(${row.num_params} params) - ${row.file}:${row.line}\n`;
+    }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  }
+
+  private async handleFindCallers(args: any) {
+    const { database_name, function_name } = args;
+
+    await this.requireGraphIndex(database_name);
+
+    // Find callers both through resolved function references AND unresolved call names
+    const result = await postgres.executeQuery(
+      `SELECT 
+         caller.name as caller_name,
+         caller.file as caller_file,
+         fc.line as call_line,
+         CASE WHEN fc.callee_id IS NOT NULL THEN 'resolved' ELSE 'unresolved' END as call_type
+       FROM function_calls fc
+       JOIN functions caller ON caller.id = fc.caller_id
+       LEFT JOIN functions callee ON callee.id = fc.callee_id
+       WHERE (callee.name = $1 OR fc.callee_name = $1)
+         AND fc.database_name = $2
+       ORDER BY caller.file, fc.line
+       LIMIT 200`,
+      [function_name, database_name]
+    );
+
+    if (result.rows.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No callers found for function '${function_name}'`,
+          },
+        ],
+      };
+    }
 
-        if (values.length > 0) {
-          // Batch insert with limit to avoid PostgreSQL parameter limit (65535)
-          // Be conservative: use 8000 params max per batch to be safe
-          const maxParams = 8000;
-          const batchSize = Math.floor(maxParams / actualColumns.length);
-          
-          console.error(`Inserting ${values.length} rows (${actualColumns.length} columns each) in batches of ${batchSize}...`);
-          
-          for (let i = 0; i < values.length; i += batchSize) {
-            const batch = values.slice(i, i + batchSize);
-            const placeholders = batch.map((_, batchIdx) => 
-              `(${actualColumns.map((__, j) => `$${batchIdx * actualColumns.length + j + 1}`).join(", ")})`
-            ).join(", ");
-            
-            const flatValues = batch.flat();
-            const expectedParams = batch.length * actualColumns.length;
-            
-            if (flatValues.length !== expectedParams) {
-              console.error(`WARNING: Mismatch! flatValues.length=${flatValues.length}, expected=${expectedParams}`);
-            }
-            
-            const result = await postgres.executeQuery(
-              `INSERT INTO ${table} (${actualColumns.join(", ")}) VALUES ${placeholders}`,
-              flatValues
-            );
-            console.error(`  ✓ Batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(values.length/batchSize)}: ${batch.length} rows inserted`);
-          }
-        }
+    let output = `Found ${result.rows.length} call site(s) for '${function_name}':\n\n`;
+    
+    for (const row of result.rows) {
+      const indicator = row.call_type === 'resolved' ? '📞' : '🔗';
+      output += `${indicator} ${row.caller_name}() calls it at ${row.caller_file}:${row.call_line}\n`;
+    }
 
-        stats[table] = values.length;
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  }
 
-        // Cleanup temp files
-        try {
-          await unlink(bqrsFile);
-          await unlink(csvFile);
-        } catch {}
-      }
+  private async handleFindCallChain(args: any) {
+    const { database_name, from_function, to_function, max_depth = 5 } = args;
 
-      // Update foreign key references
-      console.error("\nUpdating relationships...");
-      await postgres.updateForeignKeys(database_name);
+    await this.requireGraphIndex(database_name);
 
-      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    const result = await postgres.executeQuery(
+      `WITH RECURSIVE call_chain AS (
+         SELECT 
+           f.id,
+           f.name,
+           f.file,
+           ARRAY[f.name] as path,
+           0 as depth
+         FROM functions f
+         WHERE f.name = $1 AND f.database_name = $3
+         
+         UNION ALL
+         
+         SELECT 
+           callee.id,
+           callee.name,
+           callee.file,
+           cc.path || callee.name,
+           cc.depth + 1
+         FROM call_chain cc
+         JOIN function_calls fc ON fc.caller_id = cc.id
+         LEFT JOIN functions callee ON (
+           callee.id = fc.callee_id OR 
+           callee.name = fc.callee_name
+         )
+         WHERE callee.database_name = $3
+           AND cc.depth < $4
+           AND NOT callee.name = ANY(cc.path)
+       )
+       SELECT path, depth, file
+       FROM call_chain
+       WHERE name = $2
+       ORDER BY depth
+       LIMIT 1`,
+      [from_function, to_function, database_name, max_depth]
+    );
 
+    if (result.rows.length === 0) {
       return {
         content: [
           {
             type: "text",
-            text: `✓ Graph index built successfully in ${elapsed}s\n\n` +
-                  `Statistics:\n` +
-                  `  Functions: ${stats.functions || 0}\n` +
-                  `  Classes: ${stats.classes || 0}\n` +
-                  `  Function calls: ${stats.function_calls || 0}\n` +
-                  `  Class methods: ${stats.class_methods || 0}\n\n` +
-                  `Fast queries now available:\n` +
-                  `  - find_function_graph\n` +
-                  `  - find_callers_graph\n` +
-                  `  - find_call_chain_graph\n` +
-                  `  - get_class_hierarchy_graph\n` +
-                  `  - get_graph_stats`,
+            text: `No call chain found from '${from_function}' to '${to_function}' within depth ${max_depth}`,
           },
         ],
       };
-    } catch (error: any) {
-      throw new Error(`Failed to build graph index: ${error.message}`);
     }
-  }
 
-  private async handleFindFunctionFast(args: any) {
-    const { database_name, function_name, limit = 50 } = args;
+    const row = result.rows[0];
+    const path = row.path.join(" → ");
 
-    try {
-      const result = await postgres.executeQuery(
-        `SELECT name, file, line, num_params, signature
-         FROM functions
-         WHERE database_name = $1
-           AND name % $2
-         ORDER BY similarity(name, $2) DESC, name
-         LIMIT $3`,
-        [database_name, function_name, limit]
-      );
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Call chain found (depth ${row.depth}):\n\n${path}`,
+        },
+      ],
+    };
+  }
 
-      if (result.rows.length === 0) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `No functions found matching '${function_name}'`,
-            },
-          ],
-        };
-      }
+  private async handleGetClassHierarchy(args: any) {
+    const { database_name, class_name } = args;
 
-      let output = `Found ${result.rows.length} function(s) matching '${function_name}':\n\n`;
-      
-      for (const row of result.rows) {
-        output += `📍 ${row.name}(${row.num_params} params) - ${row.file}:${row.line}\n`;
-      }
+    await this.requireGraphIndex(database_name);
+
+    // Get class and its ancestors
+    const hierarchyResult = await postgres.executeQuery(
+      `WITH RECURSIVE class_hierarchy AS (
+         SELECT c.id, c.name, c.file, c.line, c.parent_id, 0 as level
+         FROM classes c
+         WHERE c.name = $1 AND c.database_name = $2
+         
+         UNION ALL
+         
+         SELECT c.id, c.name, c.file, c.line, c.parent_id, ch.level + 1
+         FROM class_hierarchy ch
+         JOIN classes c ON c.id = ch.parent_id
+         WHERE ch.level < 10
+       )
+       SELECT * FROM class_hierarchy ORDER BY level DESC`,
+      [class_name, database_name]
+    );
 
+    if (hierarchyResult.rows.length === 0) {
       return {
-        content: [{ type: "text", text: output }],
+        content: [
+          {
+            type: "text",
+            text: `Class '${class_name}' not found`,
+          },
+        ],
       };
-    } catch (error: any) {
-      if (error.message.includes("relation") && error.message.includes("does not exist")) {
-        throw new Error("Graph index not built. Run: build_graph_index " + database_name);
+    }
+
+    // Get methods for each class in hierarchy
+    const classIds = hierarchyResult.rows.map(r => r.id);
+    const methodsResult = await postgres.executeQuery(
+      `SELECT c.name as class_name, f.name as method_name, f.line
+       FROM class_methods cm
+       JOIN classes c ON c.id = cm.class_id
+       JOIN functions f ON f.id = cm.method_id
+       WHERE c.id = ANY($1)
+       ORDER BY c.name, f.name`,
+      [classIds]
+    );
+
+    const methodsByClass: { [key: string]: string[] } = {};
+    for (const row of methodsResult.rows) {
+      if (!methodsByClass[row.class_name]) {
+        methodsByClass[row.class_name] = [];
       }
-      throw error;
+      methodsByClass[row.class_name].push(row.method_name);
+    }
+
+    let output = `Class hierarchy for '${class_name}':\n\n`;
+    
+    for (const row of hierarchyResult.rows) {
+      const indent = "  ".repeat(hierarchyResult.rows.length - row.level - 1);
+      const methods = methodsByClass[row.name] || [];
+      const methodList = methods.length > 0 ? ` [${methods.slice(0, 5).join(", ")}${methods.length > 5 ? "..." : ""}]` : "";
+      output += `${indent}${row.name} (${row.file}:${row.line})${methodList}\n`;
     }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
   }
 
-  private async handleFindCallers(args: any) {
-    const { database_name, function_name } = args;
+  private async handleFindVariable(args: any) {
+    const { database_name, variable_name, scope, limit = 50 } = args;
+
+    await this.requireGraphIndex(database_name);
+
+    const result = await postgres.executeQuery(
+      `SELECT v.name, v.file, v.line, v.scope, v.var_type,
+         (SELECT COUNT(*) FROM variable_usages vu WHERE vu.variable_id = v.id) as usages
+       FROM variables v
+       WHERE v.database_name = $1
+         AND v.name % $2
+         AND ($3::text IS NULL OR v.scope = $3)
+       ORDER BY similarity(v.name, $2) DESC, v.name
+       LIMIT $4`,
+      [database_name, variable_name, scope ?? null, limit]
+    );
 
-    try {
-      // Find callers both through resolved function references AND unresolved call names
-      const result = await postgres.executeQuery(
-        `SELECT 
-           caller.name as caller_name,
-           caller.file as caller_file,
-           fc.line as call_line,
-           CASE WHEN fc.callee_id IS NOT NULL THEN 'resolved' ELSE 'unresolved' END as call_type
-         FROM function_calls fc
-         JOIN functions caller ON caller.id = fc.caller_id
-         LEFT JOIN functions callee ON callee.id = fc.callee_id
-         WHERE (callee.name = $1 OR fc.callee_name = $1)
-           AND fc.database_name = $2
-         ORDER BY caller.file, fc.line
-         LIMIT 200`,
-        [function_name, database_name]
-      );
+    if (result.rows.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No variables found matching '${variable_name}'${scope ? ` in ${scope} scope` : ""}`,
+          },
+        ],
+      };
+    }
 
-      if (result.rows.length === 0) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `No callers found for function '${function_name}'`,
-            },
-          ],
-        };
-      }
+    let output = `Found ${result.rows.length} variable(s) matching '${variable_name}':\n\n`;
 
-      let output = `Found ${result.rows.length} call site(s) for '${function_name}':\n\n`;
-      
-      for (const row of result.rows) {
-        const indicator = row.call_type === 'resolved' ? '📞' : '🔗';
-        output += `${indicator} ${row.caller_name}() calls it at ${row.caller_file}:${row.call_line}\n`;
-      }
+    for (const row of result.rows) {
+      const type = row.var_type ? `: ${row.var_type}` : "";
+      output += `📦 ${row.name}${type} [${row.scope}] - ${row.file}:${row.line} (${row.usages} usages)\n`;
+    }
 
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  }
+
+  private async handleFindVariableUsages(args: any) {
+    const { database_name, variable_name, file, access, limit = 200 } = args;
+
+    await this.requireGraphIndex(database_name);
+
+    const result = await postgres.executeQuery(
+      `SELECT v.id, v.file as variable_file, v.line as variable_line, v.scope, v.var_type,
+         vu.file, vu.line, vu.access, f.name as accessor_name
+       FROM variable_usages vu
+       JOIN variables v ON v.id = vu.variable_id
+       LEFT JOIN functions f ON f.id = vu.accessor_id
+       WHERE vu.database_name = $1
+         AND v.name = $2
+         AND ($3::text IS NULL OR v.file = $3)
+         AND ($4::text IS NULL OR vu.access = $4)
+       ORDER BY v.file, v.line, vu.file, vu.line
+       LIMIT $5`,
+      [database_name, variable_name, file ?? null, access ?? null, limit]
+    );
+
+    if (result.rows.length === 0) {
       return {
-        content: [{ type: "text", text: output }],
+        content: [
+          {
+            type: "text",
+            text: `No ${access ? `${access}s` : "usages"} found for variable '${variable_name}'${file ? ` declared in ${file}` : ""}`,
+          },
+        ],
       };
-    } catch (error: any) {
-      if (error.message.includes("relation") && error.message.includes("does not exist")) {
-        throw new Error("Graph index not built. Run: build_graph_index " + database_name);
+    }
+
+    // Variables of the same name in different files or classes are listed separately
+    let output = `Found ${result.rows.length} usage(s) of '${variable_name}':\n`;
+    let current: number | null = null;
+
+    for (const row of result.rows) {
+      if (row.id !== current) {
+        current = row.id;
+        const type = row.var_type ? `: ${row.var_type}` : "";
+        output += `\n${variable_name}${type} [${row.scope}] declared at ${row.variable_file}:${row.variable_line}\n`;
       }
-      throw error;
+      const indicator = row.access === "write" ? "✏️" : "👁️";
+      const accessor = row.accessor_name ? `${row.accessor_name}()` : "top level";
+      output += `  ${indicator} ${row.access} in ${accessor} at ${row.file}:${row.line}\n`;
     }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
   }
 
-  private async handleFindCallChain(args: any) {
-    const { database_name, from_function, to_function, max_depth = 5 } = args;
+  private async handleQueryGraphStats(args: any) {
+    const { database_name } = args;
 
-    try {
-      const result = await postgres.executeQuery(
-        `WITH RECURSIVE call_chain AS (
-           SELECT 
-             f.id,
-             f.name,
-             f.file,
-             ARRAY[f.name] as path,
-             0 as depth
-           FROM functions f
-           WHERE f.name = $1 AND f.database_name = $3
-           
-           UNION ALL
-           
-           SELECT 
-             callee.id,
-             callee.name,
-             callee.file,
-             cc.path || callee.name,
-             cc.depth + 1
-           FROM call_chain cc
-           JOIN function_calls fc ON fc.caller_id = cc.id
-           LEFT JOIN functions callee ON (
-             callee.id = fc.callee_id OR 
-             callee.name = fc.callee_name
-           )
-           WHERE callee.database_name = $3
-             AND cc.depth < $4
-             AND NOT callee.name = ANY(cc.path)
-         )
-         SELECT path, depth, file
-         FROM call_chain
-         WHERE name = $2
-         ORDER BY depth
-         LIMIT 1`,
-        [from_function, to_function, database_name, max_depth]
-      );
+    await this.requireGraphIndex(database_name);
+
+    const stats = await postgres.getDatabaseStats(database_name);
+
+    // Get top 10 most called functions
+    const hotSpotsResult = await postgres.executeQuery(
+      `SELECT 
+         f.name,
+         f.file,
+         COUNT(fc.id) as call_count,
+         COUNT(DISTINCT fc.caller_id) as unique_callers
+       FROM functions f
+       JOIN function_calls fc ON fc.callee_id = f.id
+       WHERE f.database_name = $1
+       GROUP BY f.id, f.name, f.file
+       HAVING COUNT(fc.id) > 1
+       ORDER BY call_count DESC
+       LIMIT 10`,
+      [database_name]
+    );
 
-      if (result.rows.length === 0) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `No call chain found from '${from_function}' to '${to_function}' within depth ${max_depth}`,
-            },
-          ],
-        };
+    let output = `Graph Database Statistics for '${database_name}':\n\n`;
+    output += `Total entities:\n`;
+    output += `  Functions: ${stats.functions}\n`;
+    output += `  Classes: ${stats.classes}\n`;
+    output += `  Function calls: ${stats.calls}\n`;
+    output += `  Class methods: ${stats.methods}\n`;
+    output += `  Variables: ${stats.variables}\n`;
+    output += `  Variable usages: ${stats.variableUsages}\n\n`;
+
+    if (hotSpotsResult.rows.length > 0) {
+      output += `Top 10 most-called functions (hot spots):\n`;
+      for (const row of hotSpotsResult.rows) {
+        output += `  🔥 ${row.name}() - ${row.call_count} calls from ${row.unique_callers} callers\n`;
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
+  }
+
+  private async handleCompileQuery(args: any, options: RunOptions = {}) {
+    const { query, database_name, language } = args;
+
+    let queryFile = query;
+    let inline = false;
+    if (isInlineQuery(query)) {
+      const lang = database_name ? this.databases.get(database_name)?.language : language;
+      if (!lang) {
+        throw new Error(database_name
+          ? `Database '${database_name}' not found`
+          : "Inline queries need database_name or language to select the QL library");
       }
+      queryFile = await this.writeInlineQuery(lang, query, options);
+      inline = true;
+    }
 
-      const row = result.rows[0];
-      const path = row.path.join(" → ");
+    try {
+      const { success, diagnostics } = await this.compileQuery(queryFile, options);
+      const result = {
+        success,
+        diagnostics: diagnostics.map(d => ({
+          severity: d.severity,
+          message: d.message,
+          file: inline && d.file === queryFile ? "<inline query>" : d.file,
+          line: d.line,
+          column: d.column,
+          end_line: d.endLine,
+          end_column: d.endColumn,
+        })),
+      };
 
       return {
         content: [
           {
             type: "text",
-            text: `Call chain found (depth ${row.depth}):\n\n${path}`,
+            text: `${success ? "Query compiled successfully" : "Query compilation failed"}\n\n${JSON.stringify(result, null, 2)}`,
           },
         ],
       };
-    } catch (error: any) {
-      if (error.message.includes("relation") && error.message.includes("does not exist")) {
-        throw new Error("Graph index not built. Run: build_graph_index " + database_name);
+    } finally {
+      if (inline) {
+        await removeTempFiles([queryFile]);
       }
-      throw error;
     }
   }
 
-  private async handleGetClassHierarchy(args: any) {
-    const { database_name, class_name } = args;
+  private async handleGetQueryResults(args: any, options: RunOptions = {}) {
+    const { result_id, bqrs_file, result_set, offset = 0, limit = 100, cursor } = args || {};
+
+    let source: string;
+    let resultSet: string | undefined = result_set;
+    let start: number = offset;
+    let pageSize: number = limit;
+
+    if (cursor) {
+      const parsed = decodeCursor(cursor);
+      source = parsed.source;
+      resultSet = parsed.resultSet;
+      start = parsed.offset;
+      pageSize = parsed.limit;
+    } else if (result_id) {
+      if (!/^[\w-]+$/.test(result_id)) {
+        throw new Error(`Invalid result ID '${result_id}'`);
+      }
+      source = join(RESULTS_DIR, `${result_id}.bqrs`);
+    } else if (bqrs_file) {
+      source = bqrs_file;
+    } else {
+      throw new Error("Provide result_id, bqrs_file or cursor");
+    }
 
     try {
-      // Get class and its ancestors
-      const hierarchyResult = await postgres.executeQuery(
-        `WITH RECURSIVE class_hierarchy AS (
-           SELECT c.id, c.name, c.file, c.line, c.parent_id, 0 as level
-           FROM classes c
-           WHERE c.name = $1 AND c.database_name = $2
-           
-           UNION ALL
-           
-           SELECT c.id, c.name, c.file, c.line, c.parent_id, ch.level + 1
-           FROM class_hierarchy ch
-           JOIN classes c ON c.id = ch.parent_id
-           WHERE ch.level < 10
-         )
-         SELECT * FROM class_hierarchy ORDER BY level DESC`,
-        [class_name, database_name]
-      );
+      await access(source);
+    } catch {
+      throw new Error(`Result file not found: ${source}. Stored results are pruned after ${MAX_STORED_RESULTS} newer queries.`);
+    }
+
+    const page = await this.formatResultPage(source, resultSet, start, pageSize, options);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Query results (${page.rows.length} rows from offset ${page.offset} of ${page.total_rows}):\n\n${JSON.stringify(page, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleQueryFindings(args: any) {
+    const { database_name, run_id, all_runs = false, rule, file_glob, severity, limit = 100 } = args || {};
 
-      if (hierarchyResult.rows.length === 0) {
+    await postgres.ensureSchema();
+
+    let runId: number | undefined = run_id;
+    if (runId === undefined && !all_runs && database_name) {
+      runId = (await postgres.getLatestRunId(database_name)) ?? undefined;
+      if (runId === undefined) {
         return {
           content: [
             {
               type: "text",
-              text: `Class '${class_name}' not found`,
+              text: `No stored analysis runs for '${database_name}'. Run analyze_security or run_query first.`,
             },
           ],
         };
       }
+    }
 
-      // Get methods for each class in hierarchy
-      const classIds = hierarchyResult.rows.map(r => r.id);
-      const methodsResult = await postgres.executeQuery(
-        `SELECT c.name as class_name, f.name as method_name, f.line
-         FROM class_methods cm
-         JOIN classes c ON c.id = cm.class_id
-         JOIN functions f ON f.id = cm.method_id
-         WHERE c.id = ANY($1)
-         ORDER BY c.name, f.name`,
-        [classIds]
-      );
-
-      const methodsByClass: { [key: string]: string[] } = {};
-      for (const row of methodsResult.rows) {
-        if (!methodsByClass[row.class_name]) {
-          methodsByClass[row.class_name] = [];
-        }
-        methodsByClass[row.class_name].push(row.method_name);
-      }
-
-      let output = `Class hierarchy for '${class_name}':\n\n`;
-      
-      for (const row of hierarchyResult.rows) {
-        const indent = "  ".repeat(hierarchyResult.rows.length - row.level - 1);
-        const methods = methodsByClass[row.name] || [];
-        const methodList = methods.length > 0 ? ` [${methods.slice(0, 5).join(", ")}${methods.length > 5 ? "..." : ""}]` : "";
-        output += `${indent}${row.name} (${row.file}:${row.line})${methodList}\n`;
-      }
+    const result = await postgres.queryFindings({
+      databaseName: database_name,
+      runId,
+      ruleId: rule,
+      fileRegex: file_glob ? `^${globToRegexSource(file_glob)}$` : undefined,
+      minLevel: severity,
+      limit,
+    });
 
+    if (result.rows.length === 0) {
       return {
-        content: [{ type: "text", text: output }],
+        content: [{ type: "text", text: "No findings match the given filters" }],
       };
-    } catch (error: any) {
-      if (error.message.includes("relation") && error.message.includes("does not exist")) {
-        throw new Error("Graph index not built. Run: build_graph_index " + database_name);
-      }
-      throw error;
     }
+
+    const scope = runId !== undefined ? `run #${runId}` : "all runs";
+    let output = `Found ${result.rows.length} finding(s) in ${scope}:\n\n`;
+    for (const row of result.rows) {
+      const location = row.file ? `${row.file}:${row.line ?? ""}` : "(no location)";
+      const age = row.first_seen_run === row.run_id ? "new" : `since run #${row.first_seen_run}`;
+      output += `[${row.level}] ${row.rule_id} ${location} - ${row.message} (run #${row.run_id}, ${age})\n`;
+    }
+
+    return {
+      content: [{ type: "text", text: output }],
+    };
   }
 
-  private async handleQueryGraphStats(args: any) {
-    const { database_name } = args;
+  private async handleClearCache(args: any) {
+    const { database_name, max_size_mb } = args || {};
 
-    try {
-      const stats = await postgres.getDatabaseStats(database_name);
+    const removed = max_size_mb !== undefined
+      ? await this.cache.prune(max_size_mb * 1024 * 1024)
+      : await this.cache.clear(database_name);
+    const stats = await this.cache.stats();
 
-      // Get top 10 most called functions
-      const hotSpotsResult = await postgres.executeQuery(
-        `SELECT 
-           f.name,
-           f.file,
-           COUNT(fc.id) as call_count,
-           COUNT(DISTINCT fc.caller_id) as unique_callers
-         FROM functions f
-         JOIN function_calls fc ON fc.callee_id = f.id
-         WHERE f.database_name = $1
-         GROUP BY f.id, f.name, f.file
-         HAVING COUNT(fc.id) > 1
-         ORDER BY call_count DESC
-         LIMIT 10`,
-        [database_name]
-      );
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Removed ${removed.entries} cached result(s) (${toMB(removed.bytes)} MB)` +
+            (database_name && max_size_mb === undefined ? ` for '${database_name}'` : "") + `\n\n` +
+            `Cache now holds ${stats.entries} result(s), ${toMB(stats.bytes)} MB of ${toMB(stats.maxBytes)} MB`,
+        },
+      ],
+    };
+  }
 
-      let output = `Graph Database Statistics for '${database_name}':\n\n`;
-      output += `Total entities:\n`;
-      output += `  Functions: ${stats.functions}\n`;
-      output += `  Classes: ${stats.classes}\n`;
-      output += `  Function calls: ${stats.calls}\n`;
-      output += `  Class methods: ${stats.methods}\n`;
-      output += `  Variables: ${stats.variables}\n\n`;
-
-      if (hotSpotsResult.rows.length > 0) {
-        output += `Top 10 most-called functions (hot spots):\n`;
-        for (const row of hotSpotsResult.rows) {
-          output += `  🔥 ${row.name}() - ${row.call_count} calls from ${row.unique_callers} callers\n`;
-        }
-      }
+  private async handleGetJobStatus(args: any) {
+    const { job_id, output_lines = 50 } = args;
+
+    const job = this.jobs.get(job_id);
+    if (!job) {
+      throw new Error(`Job '${job_id}' not found. Use list_jobs to see known jobs.`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: this.formatJob(job, output_lines),
+        },
+      ],
+    };
+  }
+
+  private async handleListJobs(args: any) {
+    const { status } = args || {};
 
+    const jobs = this.jobs.list().filter(job => !status || job.status === status);
+
+    if (jobs.length === 0) {
       return {
-        content: [{ type: "text", text: output }],
+        content: [
+          {
+            type: "text",
+            text: status ? `No ${status} jobs found.` : "No jobs found.",
+          },
+        ],
       };
-    } catch (error: any) {
-      if (error.message.includes("relation") && error.message.includes("does not exist")) {
-        throw new Error("Graph index not built. Run: build_graph_index " + database_name);
-      }
-      throw error;
     }
+
+    const jobList = jobs.map(job =>
+      `- ${job.id} ${job.type} '${job.database_name}' - ${job.status} (${job.phase}, ${JobManager.elapsedSeconds(job).toFixed(1)}s)`
+    ).join("\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Jobs (${jobs.length}):\n\n${jobList}`,
+        },
+      ],
+    };
+  }
+
+  private async handleCancelJob(args: any) {
+    const { job_id } = args;
+
+    const job = this.jobs.cancel(job_id);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: job.status === "cancelled"
+            ? `Job ${job_id} cancelled`
+            : `Cancellation requested for job ${job_id}; the running CodeQL process is being terminated`,
+        },
+      ],
+    };
   }
 
   async run() {
@@ -0,0 +1,217 @@
+import { readFile, writeFile } from "fs/promises";
+import { randomUUID } from "crypto";
+
+export type JobType = "create_database" | "build_graph_index";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled" | "interrupted";
+
+export interface Job {
+  id: string;
+  type: JobType;
+  database_name: string;
+  status: JobStatus;
+  phase: string;
+  created: string;
+  started?: string;
+  finished?: string;
+  output: string[];
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Handed to a running job so it can report progress and observe cancellation
+ */
+export interface JobContext {
+  signal: AbortSignal;
+  setPhase: (phase: string) => void;
+  onOutput: (text: string) => void;
+}
+
+export type JobRunner = (ctx: JobContext) => Promise<string>;
+
+// Keep only the tail of the CodeQL output so jobs.json stays small
+const MAX_OUTPUT_LINES = 500;
+
+/**
+ * Runs long CodeQL operations one at a time in the background and keeps
+ * their state in a JSON file so it survives server restarts
+ */
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private queue: { job: Job; runner: JobRunner }[] = [];
+  private running = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Load persisted jobs; anything that was queued or running when the
+   * previous server process exited is marked as interrupted
+   */
+  async load(): Promise<void> {
+    let jobs: Job[] = [];
+    try {
+      jobs = JSON.parse(await readFile(this.filePath, "utf-8")) as Job[];
+    } catch {
+      // No existing job file, start fresh
+      return;
+    }
+
+    let changed = false;
+    for (const job of jobs) {
+      if (job.status === "queued" || job.status === "running") {
+        job.status = "interrupted";
+        job.error = "Server restarted before the job finished";
+        job.finished = job.finished || new Date().toISOString();
+        changed = true;
+      }
+      this.jobs.set(job.id, job);
+    }
+
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Queue a job and return it immediately
+   */
+  enqueue(type: JobType, databaseName: string, runner: JobRunner): Job {
+    const job: Job = {
+      id: randomUUID(),
+      type,
+      database_name: databaseName,
+      status: "queued",
+      phase: "Waiting in queue",
+      created: new Date().toISOString(),
+      output: [],
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push({ job, runner });
+    this.save();
+    this.drain();
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): Job[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.created.localeCompare(a.created));
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs are aborted through their
+   * AbortSignal, which terminates the CodeQL process they are waiting on.
+   */
+  cancel(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job '${id}' not found`);
+    }
+
+    if (job.status === "queued") {
+      this.queue = this.queue.filter(entry => entry.job.id !== id);
+      this.finish(job, "cancelled", { error: "Cancelled before it started" });
+    } else if (job.status === "running") {
+      job.phase = "Cancelling";
+      this.controllers.get(id)?.abort();
+      this.save();
+    } else {
+      throw new Error(`Job '${id}' is already ${job.status}`);
+    }
+
+    return job;
+  }
+
+  /**
+   * Elapsed wall-clock time in seconds (until now for unfinished jobs)
+   */
+  static elapsedSeconds(job: Job): number {
+    if (!job.started) {
+      return 0;
+    }
+    const end = job.finished ? Date.parse(job.finished) : Date.now();
+    return (end - Date.parse(job.started)) / 1000;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      let next;
+      while ((next = this.queue.shift())) {
+        await this.execute(next.job, next.runner);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async execute(job: Job, runner: JobRunner): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    job.status = "running";
+    job.phase = "Starting";
+    job.started = new Date().toISOString();
+    await this.save();
+
+    const ctx: JobContext = {
+      signal: controller.signal,
+      setPhase: (phase: string) => {
+        job.phase = phase;
+        this.appendOutput(job, `[${phase}]`);
+        this.save();
+      },
+      onOutput: (text: string) => this.appendOutput(job, text),
+    };
+
+    try {
+      const result = await runner(ctx);
+      this.finish(job, "completed", { result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (controller.signal.aborted) {
+        this.finish(job, "cancelled", { error: message });
+      } else {
+        this.finish(job, "failed", { error: message });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private finish(job: Job, status: JobStatus, fields: { result?: string; error?: string }): void {
+    job.status = status;
+    job.phase = status === "completed" ? "Done" : job.phase;
+    job.finished = new Date().toISOString();
+    job.result = fields.result;
+    job.error = fields.error;
+    this.save();
+  }
+
+  private appendOutput(job: Job, text: string): void {
+    const lines = text.split("\n").filter(line => line.trim() !== "");
+    job.output.push(...lines);
+    if (job.output.length > MAX_OUTPUT_LINES) {
+      job.output.splice(0, job.output.length - MAX_OUTPUT_LINES);
+    }
+  }
+
+  /**
+   * Writes are chained so concurrent updates never interleave on disk
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .then(() => writeFile(this.filePath, JSON.stringify(this.list(), null, 2)))
+      .catch(error => console.error("Error saving jobs:", error));
+    return this.saving;
+  }
+}
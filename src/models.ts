@@ -0,0 +1,259 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Models-as-data extension packs: YAML data extensions that add sources,
+ * sinks, flow summaries and neutral models to a language's standard library
+ */
+
+export type Extensible = "sourceModel" | "sinkModel" | "summaryModel" | "neutralModel";
+
+export const EXTENSIBLES: Extensible[] = ["sourceModel", "sinkModel", "summaryModel", "neutralModel"];
+
+export type ModelRow = (string | boolean)[];
+
+export type ModelSet = Partial<Record<Extensible, ModelRow[]>>;
+
+export interface ModelPack {
+  language: string;
+  name: string;
+  packName: string;
+  path: string;
+  models: ModelSet;
+  // Why the pack's model file could not be read; such a pack has no models
+  error?: string;
+}
+
+// Column layouts of each extensible predicate. JavaScript, Python and Ruby
+// address APIs by type and access path; the other languages by package,
+// type and method signature, with a boolean "subtypes" column.
+const ACCESS_PATH_COLUMNS: Record<Extensible, string[]> = {
+  sourceModel: ["type", "path", "kind"],
+  sinkModel: ["type", "path", "kind"],
+  summaryModel: ["type", "path", "input", "output", "kind"],
+  neutralModel: ["type", "path", "kind"],
+};
+
+const SIGNATURE_COLUMNS: Record<Extensible, string[]> = {
+  sourceModel: ["package", "type", "subtypes", "name", "signature", "ext", "output", "kind", "provenance"],
+  sinkModel: ["package", "type", "subtypes", "name", "signature", "ext", "input", "kind", "provenance"],
+  summaryModel: ["package", "type", "subtypes", "name", "signature", "ext", "input", "output", "kind", "provenance"],
+  neutralModel: ["package", "type", "name", "signature", "kind", "provenance"],
+};
+
+export const MODEL_LANGUAGES = ["javascript", "python", "ruby", "java", "csharp", "go", "cpp"];
+
+const PACK_NAME = /^[a-z0-9][a-z0-9-]*$/;
+
+export function modelColumns(language: string): Record<Extensible, string[]> {
+  return ["javascript", "python", "ruby"].includes(language) ? ACCESS_PATH_COLUMNS : SIGNATURE_COLUMNS;
+}
+
+/**
+ * Problems with a model set, one message per bad row; empty when valid
+ */
+export function validateModels(language: string, models: ModelSet): string[] {
+  const problems: string[] = [];
+  if (!MODEL_LANGUAGES.includes(language)) {
+    return [`Models-as-data is not supported for '${language}'`];
+  }
+
+  const layouts = modelColumns(language);
+  for (const key of Object.keys(models)) {
+    if (!EXTENSIBLES.includes(key as Extensible)) {
+      problems.push(`Unknown extensible '${key}' (expected ${EXTENSIBLES.join(", ")})`);
+      continue;
+    }
+
+    const columns = layouts[key as Extensible];
+    const rows = models[key as Extensible];
+    if (!Array.isArray(rows)) {
+      problems.push(`${key} must be a list of rows`);
+      continue;
+    }
+
+    rows.forEach((row, i) => {
+      if (!Array.isArray(row) || row.length !== columns.length) {
+        problems.push(`${key}[${i}] must have ${columns.length} columns: ${columns.join(", ")}`);
+        return;
+      }
+      row.forEach((value, c) => {
+        const expected = columns[c] === "subtypes" ? "boolean" : "string";
+        if (typeof value !== expected) {
+          problems.push(`${key}[${i}].${columns[c]} must be a ${expected}`);
+        }
+      });
+      const kind = row[columns.indexOf("kind")];
+      if (kind === "") {
+        problems.push(`${key}[${i}].kind must not be empty`);
+      }
+    });
+  }
+
+  if (EXTENSIBLES.every(key => (models[key] || []).length === 0)) {
+    problems.push("The pack defines no models");
+  }
+
+  return problems;
+}
+
+/**
+ * Extension packs stored as `<dir>/<language>/<name>/`, each a library
+ * pack targeting codeql/<language>-all. Model files are written as
+ * JSON-compatible YAML so they can be read back without a YAML parser.
+ */
+export class ModelPackStore {
+  constructor(private dir: string) {}
+
+  /**
+   * Directory of a pack. Both parts become path segments, so anything but a
+   * supported language and a plain pack name is rejected.
+   */
+  packPath(language: string, name: string): string {
+    if (!MODEL_LANGUAGES.includes(language)) {
+      throw new Error(`Models-as-data is not supported for '${language}'`);
+    }
+    if (typeof name !== "string" || !PACK_NAME.test(name)) {
+      throw new Error("Pack name must be lowercase letters, digits and hyphens");
+    }
+    return join(this.dir, language, name);
+  }
+
+  packName(language: string, name: string): string {
+    return `codeql-mcp/${language}-${name}-models`;
+  }
+
+  async create(language: string, name: string, models: ModelSet): Promise<ModelPack> {
+    const path = this.packPath(language, name);
+    const problems = validateModels(language, models);
+    if (problems.length > 0) {
+      throw new Error(`Invalid models:\n${problems.map(p => `  - ${p}`).join("\n")}`);
+    }
+
+    const packName = this.packName(language, name);
+    await mkdir(join(path, "models"), { recursive: true });
+
+    await writeFile(join(path, "qlpack.yml"), `name: ${packName}
+version: 0.0.1
+library: true
+extensionTargets:
+  codeql/${language}-all: "*"
+dataExtensions:
+  - models/*.model.yml
+`);
+
+    const extensions = EXTENSIBLES
+      .filter(key => (models[key] || []).length > 0)
+      .map(key => ({
+        addsTo: { pack: `codeql/${language}-all`, extensible: key },
+        data: models[key],
+      }));
+    await writeFile(
+      join(path, "models", `${name}.model.yml`),
+      `# Data extensions written by codeql-mcp\n${JSON.stringify({ extensions }, null, 2)}\n`
+    );
+
+    return { language, name, packName, path, models };
+  }
+
+  async get(language: string, name: string): Promise<ModelPack | null> {
+    const path = this.packPath(language, name);
+    let content: string;
+    try {
+      content = await readFile(join(path, "models", `${name}.model.yml`), "utf-8");
+    } catch {
+      return null;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content.replace(/^#.*$/gm, ""));
+    } catch {
+      throw new Error(`${path}/models/${name}.model.yml is not in the JSON-compatible YAML written by create_model_pack`);
+    }
+
+    const models: ModelSet = {};
+    for (const extension of parsed.extensions || []) {
+      const key = extension.addsTo?.extensible as Extensible;
+      models[key] = [...(models[key] || []), ...(extension.data || [])];
+    }
+    return { language, name, packName: this.packName(language, name), path, models };
+  }
+
+  async list(language?: string): Promise<ModelPack[]> {
+    const packs: ModelPack[] = [];
+    const languages = language ? [language] : await this.readDir(this.dir);
+
+    for (const lang of languages.filter(l => MODEL_LANGUAGES.includes(l))) {
+      for (const name of await this.readDir(join(this.dir, lang))) {
+        // Unreadable packs are listed rather than skipped, so packArgs can
+        // refuse to run without them instead of silently dropping models
+        let pack: ModelPack | null;
+        try {
+          pack = await this.get(lang, name);
+        } catch (error: any) {
+          pack = this.unreadable(lang, name, error.message);
+        }
+        packs.push(pack ?? this.unreadable(lang, name, `models/${name}.model.yml is missing`));
+      }
+    }
+    return packs;
+  }
+
+  async delete(language: string, name: string): Promise<boolean> {
+    const path = this.packPath(language, name);
+    if (!(await this.readDir(join(this.dir, language))).includes(name)) {
+      return false;
+    }
+    await rm(path, { recursive: true, force: true });
+    return true;
+  }
+
+  /**
+   * CLI arguments that make every pack of a language apply to an analysis.
+   * Fails when a pack cannot be read, since its models would not apply.
+   */
+  async packArgs(language: string): Promise<string[]> {
+    const packs = await this.list(language);
+    if (packs.length === 0) {
+      return [];
+    }
+    const unreadable = packs.find(p => p.error);
+    if (unreadable) {
+      throw new Error(
+        `Model pack '${language}/${unreadable.name}' cannot be read (${unreadable.error}). ` +
+        "Recreate it with create_model_pack or remove it with delete_model_pack."
+      );
+    }
+    return [
+      `--additional-packs=${join(this.dir, language)}`,
+      `--model-packs=${packs.map(p => p.packName).join(",")}`,
+    ];
+  }
+
+  /**
+   * Hash of a language's models, so cached results are not reused after
+   * the models change
+   */
+  async fingerprint(language: string): Promise<string> {
+    const packs = await this.list(language);
+    const canonical = packs.map(p => `${p.name}=${JSON.stringify(p.models)}`).join("\n");
+    return createHash("sha256").update(canonical).digest("hex");
+  }
+
+  private unreadable(language: string, name: string, error: string): ModelPack {
+    return { language, name, packName: this.packName(language, name), path: join(this.dir, language, name), models: {}, error };
+  }
+
+  private async readDir(path: string): Promise<string[]> {
+    try {
+      return (await readdir(path, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+}
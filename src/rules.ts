@@ -0,0 +1,119 @@
+import { readFile } from "fs/promises";
+
+/**
+ * Query metadata for the rule catalog
+ */
+
+export interface RuleInfo {
+  id: string;
+  name?: string;
+  description?: string;
+  kind?: string;
+  severity?: string;
+  securitySeverity?: number;
+  precision?: string;
+  tags: string[];
+  cwes: string[];
+  path: string;
+}
+
+// Rule id prefixes of the standard query packs
+const RULE_PREFIX_LANGUAGES: Record<string, string> = {
+  js: "javascript",
+  py: "python",
+  java: "java",
+  cs: "csharp",
+  go: "go",
+  cpp: "cpp",
+  rb: "ruby",
+  swift: "swift",
+};
+
+/**
+ * Language of a standard rule id such as "js/sql-injection"
+ */
+export function ruleLanguage(ruleId: string): string | undefined {
+  return RULE_PREFIX_LANGUAGES[ruleId.split("/")[0]];
+}
+
+/**
+ * Parse the @-tags of a query's leading QLDoc comment. Multi-line values
+ * (e.g. a wrapped @description) are joined with spaces.
+ */
+export function parseQueryMetadata(source: string): Record<string, string> {
+  const comment = source.match(/\/\*\*([\s\S]*?)\*\//);
+  const metadata: Record<string, string> = {};
+  if (!comment) {
+    return metadata;
+  }
+
+  let current: string | null = null;
+  for (const rawLine of comment[1].split("\n")) {
+    const line = rawLine.replace(/^\s*\*?\s?/, "").trim();
+    const tag = line.match(/^@(\S+)\s*(.*)$/);
+    if (tag) {
+      current = tag[1];
+      metadata[current] = tag[2];
+    } else if (current && line) {
+      metadata[current] = `${metadata[current]} ${line}`.trim();
+    }
+  }
+  return metadata;
+}
+
+/**
+ * CWE ids from tags like "external/cwe/cwe-089", as "CWE-89"
+ */
+export function cwesFromTags(tags: string[]): string[] {
+  const cwes = new Set<string>();
+  for (const tag of tags) {
+    const match = tag.match(/^external\/cwe\/cwe-0*(\d+)$/i);
+    if (match) {
+      cwes.add(`CWE-${match[1]}`);
+    }
+  }
+  return Array.from(cwes);
+}
+
+/**
+ * Rules with `tag` and the CWE `cwe` (as "89", "CWE-89" or "cwe-089")
+ */
+export function filterRules(rules: RuleInfo[], filter: { tag?: string; cwe?: string | number }): RuleInfo[] {
+  const wantedCwe = filter.cwe ? `CWE-${String(filter.cwe).replace(/^cwe-/i, "").replace(/^0+/, "")}` : undefined;
+  return rules.filter(rule =>
+    (!filter.tag || rule.tags.includes(filter.tag)) &&
+    (!wantedCwe || rule.cwes.includes(wantedCwe))
+  );
+}
+
+/**
+ * Read the metadata of one query file
+ */
+export async function readRuleInfo(path: string): Promise<RuleInfo | null> {
+  let source: string;
+  try {
+    source = await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+
+  const metadata = parseQueryMetadata(source);
+  if (!metadata.id) {
+    return null;
+  }
+
+  const tags = (metadata.tags || "").split(/\s+/).filter(Boolean);
+  const securitySeverity = parseFloat(metadata["security-severity"]);
+  return {
+    id: metadata.id,
+    name: metadata.name,
+    description: metadata.description,
+    kind: metadata.kind,
+    severity: metadata["problem.severity"],
+    securitySeverity: isNaN(securitySeverity) ? undefined : securitySeverity,
+    precision: metadata.precision,
+    tags,
+    cwes: cwesFromTags(tags),
+    path,
+  };
+}
@@ -0,0 +1,312 @@
+import { createHash } from "crypto";
+
+/**
+ * Helpers for reading CodeQL SARIF output
+ */
+
+export interface SarifRule {
+  id: string;
+  name?: string;
+  description?: string;
+  defaultLevel?: string;
+  tags: string[];
+  precision?: string;
+  securitySeverity?: number;
+  // Query help, present when the SARIF was written with --sarif-add-query-help
+  help?: string;
+}
+
+export interface FindingLocation {
+  file?: string;
+  line?: number;
+  column?: number;
+  snippet?: string;
+}
+
+export interface FlowStep {
+  file?: string;
+  line?: number;
+  column?: number;
+  message?: string;
+}
+
+export interface Finding {
+  fingerprint: string;
+  rule: string;
+  ruleName?: string;
+  message: string;
+  level: string;
+  locations: FindingLocation[];
+  securitySeverity?: number;
+  precision?: string;
+  tags: string[];
+  triage?: { status: string; comment: string; author: string };
+  // One ordered source-to-sink step list per SARIF codeFlow (path-problem queries)
+  paths: FlowStep[][];
+}
+
+export interface FindingFilter {
+  minLevel?: string;
+  minSecuritySeverity?: number;
+  minPrecision?: string;
+  tags?: string[];
+}
+
+// SARIF levels in increasing order of importance. CodeQL's "recommendation"
+// problem severity is reported as SARIF "note".
+const LEVEL_RANK: Record<string, number> = {
+  none: 0,
+  note: 1,
+  recommendation: 1,
+  warning: 2,
+  error: 3,
+};
+
+const PRECISION_RANK: Record<string, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  "very-high": 4,
+};
+
+/**
+ * Collect rule metadata from the driver and any query pack extensions of a run
+ */
+export function collectRules(run: any): Map<string, SarifRule> {
+  const rules = new Map<string, SarifRule>();
+  const components = [run.tool?.driver, ...(run.tool?.extensions || [])];
+
+  for (const component of components) {
+    for (const rule of component?.rules || []) {
+      const props = rule.properties || {};
+      const securitySeverity = parseFloat(props["security-severity"]);
+      rules.set(rule.id, {
+        id: rule.id,
+        name: props.name || rule.name,
+        description: rule.shortDescription?.text,
+        defaultLevel: rule.defaultConfiguration?.level,
+        tags: props.tags || [],
+        precision: props.precision,
+        securitySeverity: isNaN(securitySeverity) ? undefined : securitySeverity,
+        help: rule.help?.markdown || rule.help?.text,
+      });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Stable identity of a result across runs. CodeQL's primaryLocationLineHash
+ * survives unrelated line shifts but only hashes the line's text, so it is
+ * keyed by the file too; results without partialFingerprints fall back to a
+ * hash of rule, file and message.
+ */
+export function resultFingerprint(result: any, ruleId: string): string {
+  const file = result.locations?.[0]?.physicalLocation?.artifactLocation?.uri || "";
+  const partial = result.partialFingerprints || {};
+  if (partial.primaryLocationLineHash) {
+    return `${ruleId}:${file}:${partial.primaryLocationLineHash}`;
+  }
+  const keys = Object.keys(partial).sort();
+  if (keys.length > 0) {
+    return `${ruleId}:${file}:${keys.map(k => `${k}=${partial[k]}`).join(";")}`;
+  }
+
+  const hash = createHash("sha256").update(`${ruleId}\n${file}\n${result.message?.text || ""}`).digest("hex");
+  return `${ruleId}:sha256=${hash.slice(0, 32)}`;
+}
+
+/**
+ * Ordered steps of each code flow. CodeQL emits one threadFlow per codeFlow;
+ * any further thread flows are appended in order.
+ */
+export function parseCodeFlows(result: any): FlowStep[][] {
+  return (result.codeFlows || []).map((codeFlow: any) =>
+    (codeFlow.threadFlows || []).flatMap((threadFlow: any) =>
+      (threadFlow.locations || []).map((step: any) => {
+        const location = step.location || {};
+        return {
+          file: location.physicalLocation?.artifactLocation?.uri,
+          line: location.physicalLocation?.region?.startLine,
+          column: location.physicalLocation?.region?.startColumn,
+          message: location.message?.text,
+        };
+      })
+    )
+  );
+}
+
+/**
+ * Flatten every result of every run into findings annotated with rule metadata
+ */
+export function parseFindings(sarif: any): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const run of sarif.runs || []) {
+    const rules = collectRules(run);
+
+    for (const result of run.results || []) {
+      const ruleId = result.ruleId || result.rule?.id;
+      const rule = rules.get(ruleId);
+      findings.push({
+        fingerprint: resultFingerprint(result, ruleId),
+        rule: ruleId,
+        ruleName: rule?.name,
+        message: result.message?.text || "",
+        level: result.level || rule?.defaultLevel || "warning",
+        locations: (result.locations || []).map((loc: any) => ({
+          file: loc.physicalLocation?.artifactLocation?.uri,
+          line: loc.physicalLocation?.region?.startLine,
+          column: loc.physicalLocation?.region?.startColumn,
+          snippet: loc.physicalLocation?.region?.snippet?.text ?? loc.physicalLocation?.contextRegion?.snippet?.text,
+        })),
+        securitySeverity: rule?.securitySeverity,
+        precision: rule?.precision,
+        tags: rule?.tags || [],
+        paths: parseCodeFlows(result),
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Keep findings that meet every threshold in the filter
+ */
+export function filterFindings(findings: Finding[], filter: FindingFilter): Finding[] {
+  return findings.filter(finding => {
+    if (filter.minLevel && (LEVEL_RANK[finding.level] ?? 0) < (LEVEL_RANK[filter.minLevel] ?? 0)) {
+      return false;
+    }
+    if (filter.minSecuritySeverity !== undefined && (finding.securitySeverity ?? 0) < filter.minSecuritySeverity) {
+      return false;
+    }
+    if (filter.minPrecision && (PRECISION_RANK[finding.precision || ""] ?? 0) < (PRECISION_RANK[filter.minPrecision] ?? 0)) {
+      return false;
+    }
+    if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => finding.tags.includes(tag))) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Render findings grouped by level, rule and file, followed by up to
+ * `limit` individual findings
+ */
+export function summarizeFindings(findings: Finding[], limit: number = 100): string {
+  const byLevel = new Map<string, number>();
+  const byRule = new Map<string, { finding: Finding; count: number }>();
+  const byFile = new Map<string, number>();
+
+  for (const finding of findings) {
+    byLevel.set(finding.level, (byLevel.get(finding.level) || 0) + 1);
+
+    const ruleEntry = byRule.get(finding.rule);
+    if (ruleEntry) {
+      ruleEntry.count++;
+    } else {
+      byRule.set(finding.rule, { finding, count: 1 });
+    }
+
+    const file = finding.locations[0]?.file || "(no location)";
+    byFile.set(file, (byFile.get(file) || 0) + 1);
+  }
+
+  const levels = Array.from(byLevel.entries())
+    .sort((a, b) => (LEVEL_RANK[b[0]] ?? 0) - (LEVEL_RANK[a[0]] ?? 0))
+    .map(([level, count]) => `${level} ${count}`)
+    .join(", ");
+
+  let output = `By level: ${levels || "none"}\n\n`;
+
+  if (byRule.size > 0) {
+    output += `By rule:\n`;
+    const rules = Array.from(byRule.values()).sort((a, b) => b.count - a.count);
+    for (const { finding, count } of rules) {
+      const name = finding.ruleName ? ` (${finding.ruleName})` : "";
+      const severity = finding.securitySeverity !== undefined ? `, security-severity ${finding.securitySeverity}` : "";
+      output += `  ${finding.rule}${name} - ${count} finding(s) [${finding.level}${severity}]\n`;
+    }
+    output += `\n`;
+  }
+
+  if (byFile.size > 0) {
+    output += `By file:\n`;
+    const files = Array.from(byFile.entries()).sort((a, b) => b[1] - a[1]);
+    for (const [file, count] of files) {
+      output += `  ${file} - ${count} finding(s)\n`;
+    }
+    output += `\n`;
+  }
+
+  if (findings.length > 0) {
+    const shown = findings.slice(0, limit);
+    output += `Findings${shown.length < findings.length ? ` (first ${shown.length} of ${findings.length})` : ""}:\n`;
+    for (const finding of shown) {
+      const loc = finding.locations[0];
+      const location = loc?.file ? `${loc.file}${loc.line ? `:${loc.line}` : ""}` : "(no location)";
+      const triage = finding.triage ? ` [${finding.triage.status} by ${finding.triage.author}: ${finding.triage.comment}]` : "";
+      output += `  [${finding.level}] ${finding.rule} ${location} - ${finding.message}${triage}\n`;
+      output += `      fingerprint: ${finding.fingerprint}\n`;
+      if (finding.paths.length > 0) {
+        const steps = finding.paths[0];
+        const source = steps[0];
+        const sink = steps[steps.length - 1];
+        output += `      path: ${source?.file}:${source?.line} → ${sink?.file}:${sink?.line} ` +
+          `(${steps.length} steps, ${finding.paths.length} path(s); use explain_finding)\n`;
+      }
+    }
+  }
+
+  return output;
+}
+
+export interface FindingDiff {
+  added: Finding[];
+  fixed: Finding[];
+  persisting: Finding[];
+}
+
+/**
+ * Compare two analyses. Results are matched by fingerprint first; the rest
+ * are matched by rule, file and source snippet (or message when the SARIF
+ * has no snippets), so findings survive line shifts either way.
+ */
+export function diffFindings(base: Finding[], head: Finding[]): FindingDiff {
+  const fallbackKey = (f: Finding) => {
+    const loc = f.locations[0];
+    return `${f.rule}\n${loc?.file || ""}\n${(loc?.snippet ?? f.message).trim()}`;
+  };
+
+  const persisting: Finding[] = [];
+  let unmatchedBase = base;
+  let unmatchedHead = head;
+
+  for (const key of [(f: Finding) => f.fingerprint, fallbackKey]) {
+    const pool = new Map<string, Finding[]>();
+    for (const finding of unmatchedBase) {
+      const k = key(finding);
+      pool.set(k, [...(pool.get(k) || []), finding]);
+    }
+
+    const stillUnmatchedHead: Finding[] = [];
+    for (const finding of unmatchedHead) {
+      const candidates = pool.get(key(finding));
+      if (candidates && candidates.length > 0) {
+        candidates.shift();
+        persisting.push(finding);
+      } else {
+        stillUnmatchedHead.push(finding);
+      }
+    }
+
+    unmatchedHead = stillUnmatchedHead;
+    unmatchedBase = Array.from(pool.values()).flat();
+  }
+
+  return { added: unmatchedHead, fixed: unmatchedBase, persisting };
+}
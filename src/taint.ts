@@ -0,0 +1,192 @@
+/**
+ * Generation of taint-tracking path-problem queries from a declarative
+ * spec, so callers don't have to write a TaintTracking::Global
+ * configuration by hand
+ */
+
+export type TaintNodeKind = "call" | "argument" | "parameter" | "member";
+
+/**
+ * One source, sink or sanitizer:
+ * - call: the return value of calls to `function`
+ * - argument: argument `index` (any if omitted) of calls to `function`
+ * - parameter: parameter `index` (any if omitted) of functions named `function`
+ * - member: reads of property `property`, optionally only on `object`
+ */
+export interface TaintNodeSpec {
+  kind: TaintNodeKind;
+  function?: string;
+  index?: number;
+  property?: string;
+  object?: string;
+}
+
+export interface TaintSpec {
+  sources: TaintNodeSpec[];
+  sinks: TaintNodeSpec[];
+  sanitizers?: TaintNodeSpec[];
+  name?: string;
+  message?: string;
+}
+
+export const TAINT_LANGUAGES = ["javascript", "python"];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Reject specs that would generate invalid (or injected) QL
+ */
+export function validateTaintSpec(spec: TaintSpec): void {
+  if (!spec || !Array.isArray(spec.sources) || spec.sources.length === 0) {
+    throw new Error("spec.sources must list at least one source");
+  }
+  if (!Array.isArray(spec.sinks) || spec.sinks.length === 0) {
+    throw new Error("spec.sinks must list at least one sink");
+  }
+  // The name is written into the query's QLDoc comment
+  if (spec.name !== undefined && (typeof spec.name !== "string" || /\*\/|[\r\n]/.test(spec.name))) {
+    throw new Error("spec.name must be a single line without */");
+  }
+
+  const groups: [string, TaintNodeSpec[]][] = [
+    ["sources", spec.sources],
+    ["sinks", spec.sinks],
+    ["sanitizers", spec.sanitizers || []],
+  ];
+  for (const [group, nodes] of groups) {
+    nodes.forEach((node, i) => {
+      const where = `spec.${group}[${i}]`;
+      if (!["call", "argument", "parameter", "member"].includes(node?.kind)) {
+        throw new Error(`${where}.kind must be one of call, argument, parameter, member`);
+      }
+      if (node.kind === "member") {
+        if (!node.property || !IDENTIFIER.test(node.property)) {
+          throw new Error(`${where}.property must be an identifier`);
+        }
+        if (node.object !== undefined && !IDENTIFIER.test(node.object)) {
+          throw new Error(`${where}.object must be an identifier`);
+        }
+      } else if (!node.function || !IDENTIFIER.test(node.function)) {
+        throw new Error(`${where}.function must be an identifier`);
+      }
+      if (node.index !== undefined && (!Number.isInteger(node.index) || node.index < 0)) {
+        throw new Error(`${where}.index must be a non-negative integer`);
+      }
+    });
+  }
+}
+
+function javascriptNode(node: TaintNodeSpec): string {
+  switch (node.kind) {
+    case "call":
+      return `exists(DataFlow::CallNode c | c.getCalleeName() = "${node.function}" and node = c)`;
+    case "argument": {
+      const arg = node.index !== undefined ? `c.getArgument(${node.index})` : "c.getAnArgument()";
+      return `exists(DataFlow::CallNode c | c.getCalleeName() = "${node.function}" and node = ${arg})`;
+    }
+    case "parameter": {
+      const param = node.index !== undefined ? `f.getParameter(${node.index})` : "f.getAParameter()";
+      return `exists(DataFlow::FunctionNode f | f.getName() = "${node.function}" and node = ${param})`;
+    }
+    case "member": {
+      const object = node.object ? ` and r.getBase().asExpr().(VarAccess).getName() = "${node.object}"` : "";
+      return `exists(DataFlow::PropRead r | r.getPropertyName() = "${node.property}"${object} and node = r)`;
+    }
+  }
+}
+
+function pythonNode(node: TaintNodeSpec): string {
+  // Matches both plain calls f(...) and method calls x.f(...)
+  const callee = (name: string) =>
+    `(c.getFunction().asExpr().(Name).getId() = "${name}" or c.getFunction().asExpr().(Attribute).getName() = "${name}")`;
+
+  switch (node.kind) {
+    case "call":
+      return `exists(DataFlow::CallCfgNode c | ${callee(node.function!)} and node = c)`;
+    case "argument": {
+      const arg = node.index !== undefined ? `c.getArg(${node.index})` : "c.getArg(_)";
+      return `exists(DataFlow::CallCfgNode c | ${callee(node.function!)} and node = ${arg})`;
+    }
+    case "parameter": {
+      const param = node.index !== undefined ? `f.getArg(${node.index})` : "f.getAnArg()";
+      return `exists(Function f | f.getName() = "${node.function}" and node.(DataFlow::ParameterNode).getParameter() = ${param})`;
+    }
+    case "member": {
+      const object = node.object ? ` and r.getObject().asExpr().(Name).getId() = "${node.object}"` : "";
+      return `exists(DataFlow::AttrRead r | r.getAttributeName() = "${node.property}"${object} and node = r)`;
+    }
+  }
+}
+
+function predicateBody(nodes: TaintNodeSpec[], render: (node: TaintNodeSpec) => string): string {
+  if (nodes.length === 0) {
+    return "none()";
+  }
+  return nodes.map(node => `    ${render(node)}`).join("\n    or\n").trimStart();
+}
+
+function qlString(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, " ");
+}
+
+/**
+ * Path-problem query for `language` (javascript or python) tracking taint
+ * from the spec's sources to its sinks, stopping at its sanitizers
+ */
+export function generateTaintQuery(language: string, spec: TaintSpec): string {
+  validateTaintSpec(spec);
+
+  let imports: string;
+  let render: (node: TaintNodeSpec) => string;
+  if (language === "javascript") {
+    imports = "import javascript";
+    render = javascriptNode;
+  } else if (language === "python") {
+    imports = [
+      "import python",
+      "import semmle.python.dataflow.new.DataFlow",
+      "import semmle.python.dataflow.new.TaintTracking",
+    ].join("\n");
+    render = pythonNode;
+  } else {
+    throw new Error(`Taint analysis supports ${TAINT_LANGUAGES.join(" and ")}, not '${language}'`);
+  }
+
+  const name = spec.name || "Custom taint flow";
+  const message = qlString(spec.message || "Tainted data from $@ reaches this sink.");
+  // The select clause needs exactly one $@ placeholder for the source
+  const selectMessage = message.includes("$@") ? message : `${message} (source: $@)`;
+
+  return `/**
+ * @name ${name}
+ * @description Generated by run_taint_analysis
+ * @kind path-problem
+ * @problem.severity error
+ * @id codeql-mcp/taint/custom
+ */
+
+${imports}
+
+module TaintConfig implements DataFlow::ConfigSig {
+  predicate isSource(DataFlow::Node node) {
+    ${predicateBody(spec.sources, render)}
+  }
+
+  predicate isSink(DataFlow::Node node) {
+    ${predicateBody(spec.sinks, render)}
+  }
+
+  predicate isBarrier(DataFlow::Node node) {
+    ${predicateBody(spec.sanitizers || [], render)}
+  }
+}
+
+module TaintFlow = TaintTracking::Global<TaintConfig>;
+
+import TaintFlow::PathGraph
+
+from TaintFlow::PathNode source, TaintFlow::PathNode sink
+where TaintFlow::flowPath(source, sink)
+select sink.getNode(), source, sink, "${selectMessage}", source.getNode(), "source"
+`;
+}
@@ -0,0 +1,77 @@
+import { readFile, writeFile } from "fs/promises";
+
+export type TriageStatus = "false-positive" | "wont-fix" | "confirmed";
+
+export const TRIAGE_STATUSES: TriageStatus[] = ["false-positive", "wont-fix", "confirmed"];
+
+export interface TriageDecision {
+  rule: string;
+  fingerprint: string;
+  status: TriageStatus;
+  comment: string;
+  author: string;
+  updated: string;
+  // Where the finding was when it was triaged, for display only
+  database_name?: string;
+  file?: string;
+  line?: number;
+  message?: string;
+}
+
+/**
+ * Statuses that hide a finding from analysis output unless triaged
+ * findings are explicitly requested
+ */
+export const SUPPRESSING_STATUSES: TriageStatus[] = ["false-positive", "wont-fix"];
+
+/**
+ * Triage decisions stored in a JSON file, keyed by rule plus fingerprint so
+ * they apply to the same finding in later analyses and other databases
+ */
+export class TriageStore {
+  private decisions: Map<string, TriageDecision> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async load(): Promise<void> {
+    try {
+      const decisions = JSON.parse(await readFile(this.filePath, "utf-8")) as TriageDecision[];
+      decisions.forEach(d => this.decisions.set(this.key(d.rule, d.fingerprint), d));
+    } catch {
+      // No existing triage file, start fresh
+    }
+  }
+
+  get(rule: string, fingerprint: string): TriageDecision | undefined {
+    return this.decisions.get(this.key(rule, fingerprint));
+  }
+
+  async set(decision: TriageDecision): Promise<void> {
+    this.decisions.set(this.key(decision.rule, decision.fingerprint), decision);
+    await this.save();
+  }
+
+  async remove(rule: string, fingerprint: string): Promise<boolean> {
+    const removed = this.decisions.delete(this.key(rule, fingerprint));
+    if (removed) {
+      await this.save();
+    }
+    return removed;
+  }
+
+  list(): TriageDecision[] {
+    return Array.from(this.decisions.values()).sort((a, b) => b.updated.localeCompare(a.updated));
+  }
+
+  private key(rule: string, fingerprint: string): string {
+    return `${rule}\n${fingerprint}`;
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .then(() => writeFile(this.filePath, JSON.stringify(this.list(), null, 2)))
+      .catch(error => console.error("Error saving triage decisions:", error));
+    return this.saving;
+  }
+}
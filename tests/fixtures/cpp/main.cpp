@@ -0,0 +1,10 @@
+#include <iostream>
+
+#include "shapes.h"
+
+int main() {
+  Circle circle(2.0);
+  Square square(3.0);
+  std::cout << circle.label() << " " << totalArea(circle, square) << std::endl;
+  return 0;
+}
@@ -0,0 +1,13 @@
+#include "shapes.h"
+
+std::string Shape::label() const { return "shape " + name_; }
+
+Circle::Circle(double radius) : Shape("circle"), radius_(radius) {}
+
+double Circle::area() const { return 3.14159 * radius_ * radius_; }
+
+Square::Square(double side) : Shape("square"), side_(side) {}
+
+double Square::area() const { return side_ * side_; }
+
+double totalArea(const Shape &a, const Shape &b) { return a.area() + b.area(); }
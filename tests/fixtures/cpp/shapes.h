@@ -0,0 +1,33 @@
+#pragma once
+
+#include <string>
+
+class Shape {
+public:
+  explicit Shape(const std::string &name) : name_(name) {}
+  virtual double area() const = 0;
+  std::string label() const;
+
+private:
+  std::string name_;
+};
+
+class Circle : public Shape {
+public:
+  explicit Circle(double radius);
+  double area() const override;
+
+private:
+  double radius_;
+};
+
+class Square : public Shape {
+public:
+  explicit Square(double side);
+  double area() const override;
+
+private:
+  double side_;
+};
+
+double totalArea(const Shape &a, const Shape &b);
@@ -0,0 +1,13 @@
+namespace Fixture;
+
+public static class Program
+{
+    public static double TotalArea(IShape a, IShape b) => a.Area() + b.Area();
+
+    public static void Main()
+    {
+        var circle = new Circle(2.0);
+        var square = new Square(3.0);
+        Console.WriteLine(circle.Label() + " " + TotalArea(circle, square));
+    }
+}
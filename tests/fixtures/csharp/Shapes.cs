@@ -0,0 +1,44 @@
+namespace Fixture;
+
+public interface IShape
+{
+    double Area();
+}
+
+public abstract class Shape : IShape
+{
+    protected readonly string name;
+
+    protected Shape(string name)
+    {
+        this.name = name;
+    }
+
+    public abstract double Area();
+
+    public string Label() => "shape " + name;
+}
+
+public class Circle : Shape
+{
+    private readonly double radius;
+
+    public Circle(double radius) : base("circle")
+    {
+        this.radius = radius;
+    }
+
+    public override double Area() => Math.PI * radius * radius;
+}
+
+public class Square : Shape
+{
+    private readonly double side;
+
+    public Square(double side) : base("square")
+    {
+        this.side = side;
+    }
+
+    public override double Area() => side * side;
+}
@@ -0,0 +1,14 @@
+package main
+
+import "fmt"
+
+func describe(s Shape) string {
+	return fmt.Sprintf("%.2f", s.Area())
+}
+
+func main() {
+	c := NewCircle("circle", 2)
+	fmt.Println(c.Label(), describe(c))
+	sq := Square{Named: &Named{Name: "square"}, Side: 3}
+	fmt.Println(sq.Label(), describe(sq))
+}
@@ -0,0 +1,37 @@
+package main
+
+import "math"
+
+type Shape interface {
+	Area() float64
+}
+
+type Named struct {
+	Name string
+}
+
+func (n Named) Label() string {
+	return "shape " + n.Name
+}
+
+type Circle struct {
+	Named
+	Radius float64
+}
+
+func NewCircle(name string, radius float64) *Circle {
+	return &Circle{Named: Named{Name: name}, Radius: radius}
+}
+
+func (c *Circle) Area() float64 {
+	return math.Pi * c.Radius * c.Radius
+}
+
+type Square struct {
+	*Named
+	Side float64
+}
+
+func (s Square) Area() float64 {
+	return s.Side * s.Side
+}
@@ -0,0 +1,9 @@
+require_relative "shapes"
+
+def main
+  circle = Geometry::Circle.new(2.0)
+  square = Geometry::Square.new(3.0)
+  puts "#{circle.label} #{Geometry.total_area(circle, square)}"
+end
+
+main
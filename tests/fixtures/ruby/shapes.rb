@@ -0,0 +1,39 @@
+module Geometry
+  class Shape
+    attr_reader :name
+
+    def initialize(name)
+      @name = name
+    end
+
+    def label
+      "shape #{name}"
+    end
+  end
+
+  class Circle < Shape
+    def initialize(radius)
+      super("circle")
+      @radius = radius
+    end
+
+    def area
+      3.14159 * @radius * @radius
+    end
+  end
+
+  class Square < Shape
+    def initialize(side)
+      super("square")
+      @side = side
+    end
+
+    def area
+      @side * @side
+    end
+  end
+
+  def self.total_area(a, b)
+    a.area + b.area
+  end
+end
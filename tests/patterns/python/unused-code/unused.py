@@ -0,0 +1,17 @@
+def used_helper():
+    return 1
+
+
+def unused_helper():
+    return 2
+
+
+class Service:
+    def run(self):
+        return self.step()
+
+    def step(self):
+        return used_helper()
+
+
+Service().run()
@@ -13,6 +13,7 @@ echo ""
 # Make scripts executable
 chmod +x "$PROJECT_ROOT/javascript/test-rocketchat.sh"
 chmod +x "$PROJECT_ROOT/python/test-flask.sh"
+chmod +x "$PROJECT_ROOT/java/test-petclinic.sh"
 
 # Run JavaScript tests
 echo "▶️  Running JavaScript tests (Rocket.Chat)..."
@@ -28,6 +29,15 @@ echo "▶️  Running Python tests (Flask)..."
 echo ""
 "$PROJECT_ROOT/python/test-flask.sh"
 
+echo ""
+echo "================================"
+echo ""
+
+# Run Java tests
+echo "▶️  Running Java tests (Spring PetClinic)..."
+echo ""
+"$PROJECT_ROOT/java/test-petclinic.sh"
+
 echo ""
 echo "================================"
 echo ""
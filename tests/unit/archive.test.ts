@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { archiveEntryPath, archiveFileHashes, compareFileHashes, listArchiveFiles, numberedLines, readArchiveFile, sourcePathOf, unzipPattern } from "../../src/archive.js";
+
+function hasZip(): boolean {
+  try {
+    execFileSync("zip", ["-v"], { stdio: "ignore" });
+    execFileSync("unzip", ["-v"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+test("archive entries mirror absolute source paths", () => {
+  const archive = { sourceLocationPrefix: "/home/me/app" };
+  assert.equal(archiveEntryPath(archive, "src/a.js"), "home/me/app/src/a.js");
+  assert.equal(archiveEntryPath({ sourceLocationPrefix: "C:\\work\\app" }, "src\\a.js"), "C_/work/app/src/a.js");
+  assert.equal(sourcePathOf(archive, "home/me/app/src/a.js"), "src/a.js");
+  assert.equal(sourcePathOf(archive, "usr/lib/node/x.js"), "/usr/lib/node/x.js");
+});
+
+test("unzipPattern escapes wildcard characters", () => {
+  assert.equal(unzipPattern("app/pages/[id].tsx"), "app/pages/\\[id\\].tsx");
+  assert.equal(unzipPattern("a*b?.ts"), "a\\*b\\?.ts");
+  assert.equal(unzipPattern("src/plain.ts"), "src/plain.ts");
+});
+
+test("readArchiveFile reads entries with wildcard characters literally", { skip: !hasZip() && "zip/unzip not installed" }, async () => {
+  const root = await mkdtemp(join(tmpdir(), "codeql-mcp-archive-"));
+  try {
+    const source = join(root, "src", "app", "pages");
+    await mkdir(source, { recursive: true });
+    await writeFile(join(source, "[id].tsx"), "bracket\n");
+    await writeFile(join(source, "i.tsx"), "plain\n");
+    const zipPath = join(root, "src.zip");
+    execFileSync("zip", ["-qr", zipPath, "app"], { cwd: join(root, "src") });
+
+    const archive = { zipPath, sourceLocationPrefix: "/app" };
+    assert.equal(await readArchiveFile(archive, "pages/[id].tsx"), "bracket\n");
+    assert.equal(await readArchiveFile(archive, "pages/i.tsx"), "plain\n");
+    assert.equal(await readArchiveFile(archive, "pages/[x].tsx"), null);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("readArchiveFile keeps src/ directory reads inside the archive", async () => {
+  const root = await mkdtemp(join(tmpdir(), "codeql-mcp-archive-"));
+  try {
+    await mkdir(join(root, "src", "app", "lib"), { recursive: true });
+    await writeFile(join(root, "src", "app", "lib", "a.js"), "inside\n");
+    await writeFile(join(root, "secret.txt"), "outside\n");
+
+    const archive = { dirPath: join(root, "src"), sourceLocationPrefix: "/app" };
+    assert.equal(await readArchiveFile(archive, "lib/a.js"), "inside\n");
+    assert.equal(await readArchiveFile(archive, "../../secret.txt"), null);
+    assert.equal(await readArchiveFile(archive, "lib/../../../secret.txt"), null);
+    assert.deepEqual(await listArchiveFiles(archive), [{ path: "lib/a.js", size: 7 }]);
+    assert.deepEqual(Array.from((await archiveFileHashes(archive)).keys()), ["lib/a.js"]);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test("numberedLines prefixes and highlights lines", () => {
+  assert.equal(numberedLines("a\nb\nc", 2, 5, 3), "  2 | b\n> 3 | c");
+});
+
+test("compareFileHashes classifies added, modified and removed files", () => {
+  const indexed = new Map([["a.js", "1"], ["b.js", "2"], ["c.js", "3"]]);
+  const hashes = new Map([["a.js", "1"], ["b.js", "changed"], ["d.js", "4"]]);
+  assert.deepEqual(compareFileHashes(hashes, indexed), { added: ["d.js"], modified: ["b.js"], removed: ["c.js"] });
+  assert.deepEqual(compareFileHashes(hashes, indexed, ["./a.js", "c.js", "a.js"]), { added: [], modified: ["a.js"], removed: ["c.js"] });
+});
@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ResultSetInfo, bqrsInfo, decodeCursor, decodePage, encodeCursor, normalizeValue } from "../../src/bqrs.js";
+
+const info: ResultSetInfo = {
+  name: "#select",
+  rows: 250,
+  columns: [{ name: "n", kind: "Integer" }],
+  offsets: [0, 4000, 8000],
+  stepSize: 100,
+};
+
+/**
+ * Fake `bqrs decode` that writes rows from the paginated offset it was
+ * started at, recording the arguments it was called with
+ */
+function fakeDecoder(calls: string[][]) {
+  return async (args: string[]) => {
+    calls.push(args);
+    const startAt = args.find(a => a.startsWith("--start-at="));
+    const firstRow = startAt ? info.offsets.indexOf(parseInt(startAt.split("=")[1])) * info.stepSize : 0;
+    const count = parseInt(args.find(a => a.startsWith("--rows="))!.split("=")[1]);
+    const tuples = Array.from({ length: Math.min(count, info.rows - firstRow) }, (_, i) => [firstRow + i]);
+    await writeFile(args[args.indexOf("--output") + 1], JSON.stringify({ [info.name]: { tuples } }));
+    return { stdout: "", stderr: "" };
+  };
+}
+
+async function withTempDir(run: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), "codeql-mcp-bqrs-"));
+  try {
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("decodePage starts at the closest paginated offset", async () => {
+  await withTempDir(async dir => {
+    const calls: string[][] = [];
+    const page = await decodePage(fakeDecoder(calls), "r.bqrs", info, 130, 20, dir);
+
+    assert.deepEqual(page.rows, Array.from({ length: 20 }, (_, i) => [130 + i]));
+    assert.equal(page.nextOffset, 150);
+    assert.ok(calls[0].includes("--start-at=4000"));
+    assert.ok(calls[0].includes("--rows=50"));
+  });
+});
+
+test("decodePage stops at the last row and skips decoding past the end", async () => {
+  await withTempDir(async dir => {
+    const calls: string[][] = [];
+    const last = await decodePage(fakeDecoder(calls), "r.bqrs", info, 240, 50, dir);
+    assert.deepEqual(last.rows, Array.from({ length: 10 }, (_, i) => [240 + i]));
+    assert.equal(last.nextOffset, undefined);
+
+    const past = await decodePage(fakeDecoder(calls), "r.bqrs", info, 250, 50, dir);
+    assert.deepEqual(past.rows, []);
+    assert.equal(calls.length, 1);
+  });
+});
+
+test("decodePage decodes from the start without pagination offsets", async () => {
+  await withTempDir(async dir => {
+    const calls: string[][] = [];
+    const page = await decodePage(fakeDecoder(calls), "r.bqrs", { ...info, offsets: [] }, 5, 3, dir);
+    assert.deepEqual(page.rows, [[5], [6], [7]]);
+    assert.ok(!calls[0].some(a => a.startsWith("--start-at=")));
+    assert.ok(calls[0].includes("--rows=8"));
+  });
+});
+
+test("bqrsInfo reads result sets and pagination", async () => {
+  const run = async () => ({
+    stdout: JSON.stringify({
+      resultSets: [{ name: "#select", rows: 3, columns: [{ name: "f", kind: "Entity" }, {}], pagination: { "step-size": 2, offsets: [0, 90] } }],
+    }),
+    stderr: "",
+  });
+  assert.deepEqual(await bqrsInfo(run, "r.bqrs", 2), [{
+    name: "#select",
+    rows: 3,
+    columns: [{ name: "f", kind: "Entity" }, { name: "col1", kind: "String" }],
+    offsets: [0, 90],
+    stepSize: 2,
+  }]);
+});
+
+test("normalizeValue flattens entities with locations", () => {
+  assert.equal(normalizeValue(3), 3);
+  assert.deepEqual(
+    normalizeValue({ label: "foo", url: { uri: "file:///a.js", startLine: 2, startColumn: 5 } }),
+    { label: "foo", file: "file:///a.js", line: 2, column: 5 }
+  );
+  assert.deepEqual(normalizeValue({ label: "x", url: "file://:0:0:0:0" }), { label: "x", url: "file://:0:0:0:0" });
+});
+
+test("cursors round-trip and reject garbage", () => {
+  const cursor = { source: "abc", resultSet: "#select", offset: 100, limit: 50 };
+  assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  assert.throws(() => decodeCursor("not-a-cursor"), /Invalid cursor/);
+  assert.throws(() => decodeCursor(Buffer.from("{}").toString("base64url")), /Invalid cursor/);
+});
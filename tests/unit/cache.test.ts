@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ResultCache, queryTargetStamp } from "../../src/cache.js";
+
+test("cache keys do not depend on part order", () => {
+  const cache = new ResultCache("/nonexistent", 0);
+  assert.equal(cache.key({ a: "1", b: "2" }), cache.key({ b: "2", a: "1" }));
+  assert.notEqual(cache.key({ a: "1" }), cache.key({ a: "2" }));
+});
+
+test("query identity changes with queries and the libraries of their pack", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "cache-test-"));
+  try {
+    const cache = new ResultCache(join(dir, "cache"), 0);
+    const pack = join(dir, "pack");
+    await mkdir(join(pack, "lib"), { recursive: true });
+    await mkdir(join(pack, ".codeql"), { recursive: true });
+    await writeFile(join(pack, "qlpack.yml"), "name: test/pack\n");
+    await writeFile(join(pack, "queries.ql"), "import lib.Helpers\nselect 1\n");
+    await writeFile(join(pack, "lib", "Helpers.qll"), "predicate p() { any() }\n");
+    await writeFile(join(pack, ".codeql", "Ignored.qll"), "v1\n");
+    const queries = [join(pack, "queries.ql")];
+
+    const initial = await cache.queryIdentity(queries);
+    assert.equal(await cache.queryIdentity(queries), initial);
+
+    await writeFile(join(pack, ".codeql", "Ignored.qll"), "v2\n");
+    assert.equal(await cache.queryIdentity(queries), initial);
+
+    await writeFile(join(pack, "lib", "Helpers.qll"), "predicate p() { none() }\n");
+    const editedLibrary = await cache.queryIdentity(queries);
+    assert.notEqual(editedLibrary, initial);
+
+    await writeFile(join(pack, "queries.ql"), "import lib.Helpers\nselect 2\n");
+    assert.notEqual(await cache.queryIdentity(queries), editedLibrary);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("query identity outside a pack covers only sibling libraries", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "cache-test-"));
+  try {
+    const cache = new ResultCache(join(dir, "cache"), 0);
+    await mkdir(join(dir, "nested"), { recursive: true });
+    await writeFile(join(dir, "query.ql"), "select 1\n");
+    await writeFile(join(dir, "Local.qll"), "v1\n");
+    await writeFile(join(dir, "nested", "Other.qll"), "v1\n");
+    const queries = [join(dir, "query.ql")];
+
+    const initial = await cache.queryIdentity(queries);
+    await writeFile(join(dir, "nested", "Other.qll"), "v2\n");
+    assert.equal(await cache.queryIdentity(queries), initial);
+    await writeFile(join(dir, "Local.qll"), "v2\n");
+    assert.notEqual(await cache.queryIdentity(queries), initial);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("query target stamps change when a suite or the package cache does", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "cache-test-"));
+  try {
+    const packages = join(dir, "packages");
+    const suite = join(dir, "custom.qls");
+    await mkdir(join(packages, "codeql", "javascript-queries", "1.0.0"), { recursive: true });
+    await writeFile(suite, "- queries: .\n");
+
+    const initial = await queryTargetStamp(suite, packages);
+    assert.equal(await queryTargetStamp(suite, packages), initial);
+
+    await utimes(suite, new Date(), new Date(Date.now() + 5000));
+    const editedSuite = await queryTargetStamp(suite, packages);
+    assert.notEqual(editedSuite, initial);
+
+    await utimes(join(packages, "codeql", "javascript-queries"), new Date(), new Date(Date.now() + 10000));
+    assert.notEqual(await queryTargetStamp(suite, packages), editedSuite);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
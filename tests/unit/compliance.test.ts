@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildComplianceReport, complianceMarkdown, findingSeverity, owaspCategories } from "../../src/compliance.js";
+import { Finding } from "../../src/sarif.js";
+
+function finding(rule: string, tags: string[], extra: Partial<Finding> = {}): Finding {
+  return { fingerprint: rule, rule, message: "m", level: "error", locations: [], tags, paths: [], ...extra };
+}
+
+test("findingSeverity buckets scores and falls back to the level", () => {
+  assert.equal(findingSeverity(finding("r", [], { securitySeverity: 9.8 })), "critical");
+  assert.equal(findingSeverity(finding("r", [], { securitySeverity: 7 })), "high");
+  assert.equal(findingSeverity(finding("r", [], { securitySeverity: 4 })), "medium");
+  assert.equal(findingSeverity(finding("r", [], { securitySeverity: 1 })), "low");
+  assert.equal(findingSeverity(finding("r", [], { level: "warning" })), "medium");
+  assert.equal(findingSeverity(finding("r", [], { level: "note" })), "low");
+});
+
+test("owaspCategories maps CWE ids to OWASP 2021 categories", () => {
+  assert.deepEqual(owaspCategories("CWE-89").map(c => c.id), ["A03:2021"]);
+  assert.deepEqual(owaspCategories("cwe-22").map(c => c.id), ["A01:2021"]);
+  assert.deepEqual(owaspCategories("CWE-99999"), []);
+});
+
+test("buildComplianceReport counts each finding once per category", () => {
+  const sqli = finding("js/sql-injection", ["external/cwe/cwe-089", "external/cwe/cwe-079"], { securitySeverity: 8.8 });
+  const untagged = finding("js/unused", []);
+  const report = buildComplianceReport("Report", [sqli, untagged], [
+    { id: "js/sql-injection", tags: ["external/cwe/cwe-089"] },
+    { id: "js/path-injection", tags: ["external/cwe/cwe-022"] },
+  ]);
+
+  assert.equal(report.totalFindings, 2);
+  assert.equal(report.unmappedFindings, 1);
+  assert.deepEqual(report.cwes.map(entry => entry.cwe), ["CWE-79", "CWE-89"]);
+
+  const status = Object.fromEntries(report.owasp.map(entry => [entry.id, entry]));
+  assert.equal(status["A03:2021"].status, "findings");
+  assert.equal(status["A03:2021"].total, 1);
+  assert.equal(status["A03:2021"].bySeverity.high, 1);
+  assert.equal(status["A01:2021"].status, "no findings");
+  assert.equal(status["A10:2021"].status, "not covered");
+
+  const markdown = complianceMarkdown(report);
+  assert.match(markdown, /2 finding\(s\) from 2 rule\(s\); 1 without a CWE tag/);
+  assert.match(markdown, /\| A03:2021 Injection \| findings \| 1 \| 0 \| 1 \| 0 \| 0 \| CWE-89, CWE-79 \|/);
+});
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, toCopyCsvLine } from "../../src/csv.js";
+
+async function* chunks(...parts: string[]): AsyncGenerator<string> {
+  yield* parts;
+}
+
+async function parse(...parts: string[]): Promise<string[][]> {
+  const rows: string[][] = [];
+  for await (const row of parseCsv(chunks(...parts))) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+test("parseCsv splits plain rows and keeps empty fields", async () => {
+  assert.deepEqual(await parse("a,b,c\n1,,3\n"), [["a", "b", "c"], ["1", "", "3"]]);
+  assert.deepEqual(await parse(",\n"), [["", ""]]);
+});
+
+test("parseCsv handles quoted commas, line breaks and doubled quotes", async () => {
+  assert.deepEqual(await parse('"a,b","line 1\nline 2","say ""hi"""\n'), [["a,b", "line 1\nline 2", 'say "hi"']]);
+  assert.deepEqual(await parse('"",x\n'), [["", "x"]]);
+  assert.deepEqual(await parse('""""\n'), [['"']]);
+});
+
+test("parseCsv accepts CRLF line endings and a missing final newline", async () => {
+  assert.deepEqual(await parse("a,b\r\n1,2\r\n"), [["a", "b"], ["1", "2"]]);
+  assert.deepEqual(await parse("a,b\r\n1,2"), [["a", "b"], ["1", "2"]]);
+  assert.deepEqual(await parse('"x\r\ny"\r\n'), [["x\r\ny"]]);
+});
+
+test("parseCsv handles quotes and line endings split across chunks", async () => {
+  assert.deepEqual(await parse('"a"', '"b",c\r', "\nd,", '"e', '"'), [['a"b', "c"], ["d", "e"]]);
+});
+
+test("toCopyCsvLine quotes values and leaves nulls unquoted", () => {
+  assert.equal(toCopyCsvLine(["a", 1, null, 'say "hi"', ""]), '"a","1",,"say ""hi""",""\n');
+});
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatDiagnostics, parseDiagnostics } from "../../src/diagnostics.js";
+
+test("parseDiagnostics reads positioned compiler messages", () => {
+  const output = [
+    "Compiling query plan for /tmp/q.ql.",
+    "ERROR: could not resolve type Foo (/tmp/q.ql:5,6-9)",
+    "  WARNING: unused variable (/tmp/q.ql:3,1-4,12)  ",
+  ].join("\n");
+
+  assert.deepEqual(parseDiagnostics(output), [
+    { severity: "error", message: "could not resolve type Foo", file: "/tmp/q.ql", line: 5, column: 6, endLine: 5, endColumn: 9 },
+    { severity: "warning", message: "unused variable", file: "/tmp/q.ql", line: 3, column: 1, endLine: 4, endColumn: 12 },
+  ]);
+});
+
+test("parseDiagnostics keeps errors without a position", () => {
+  assert.deepEqual(parseDiagnostics("A fatal error occurred: Query pack not found\nERROR: out of memory\n"), [
+    { severity: "error", message: "Query pack not found" },
+    { severity: "error", message: "out of memory" },
+  ]);
+  assert.deepEqual(parseDiagnostics("Nothing to report\n"), []);
+});
+
+test("formatDiagnostics prints one line per diagnostic", () => {
+  assert.equal(
+    formatDiagnostics([
+      { severity: "error", message: "could not resolve type Foo", file: "q.ql", line: 5, column: 6 },
+      { severity: "error", message: "out of memory" },
+    ]),
+    "error at q.ql:5:6: could not resolve type Foo\nerror: out of memory"
+  );
+});
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ExportRow, toCodeClimate, toCsv, toGitLabCodeQuality, toJUnit, toMarkdown } from "../../src/export.js";
+
+const rows: ExportRow[] = [
+  { rule: "js/xss", message: 'Value "x", unescaped', level: "error", file: "src/a.js", line: 3 },
+  { rule: "js/xss", message: "Second | finding", level: "warning", file: "src/b.js", line: "" },
+];
+
+test("toCsv quotes every field and adds optional columns", () => {
+  assert.equal(
+    toCsv(rows),
+    'Rule,Message,Level,File,Line\n' +
+      '"js/xss","Value ""x"", unescaped","error","src/a.js","3"\n' +
+      '"js/xss","Second | finding","warning","src/b.js",""\n'
+  );
+  const [header] = toCsv([{ ...rows[0], status: "new", triage: "confirmed" }]).split("\n");
+  assert.equal(header, "Status,Rule,Message,Level,File,Line,Triage");
+});
+
+test("toMarkdown escapes table cells and notes empty sections", () => {
+  const content = toMarkdown("Report", [{ heading: "New", rows }, { heading: "Fixed", rows: [] }]);
+  assert.match(content, /\| js\/xss \| Second \\\| finding \| warning \| src\/b\.js \|/);
+  assert.match(content, /\| src\/a\.js:3 \|/);
+  assert.match(content, /## Fixed\n\n_None_/);
+});
+
+test("toJUnit fails rules with findings and passes the others", () => {
+  const content = toJUnit(rows, ["js/sql-injection"]);
+  assert.match(content, /<testsuites name="CodeQL" tests="2" failures="1">/);
+  assert.match(content, /<testcase classname="codeql" name="js\/sql-injection" \/>/);
+  assert.match(content, /<failure message="2 finding\(s\)" type="error">/);
+  assert.match(content, /Value &quot;x&quot;, unescaped/);
+});
+
+test("code quality reports map levels and default missing lines to 1", () => {
+  const issues = JSON.parse(toGitLabCodeQuality(rows));
+  assert.deepEqual(issues.map((issue: any) => issue.severity), ["critical", "major"]);
+  assert.deepEqual(issues.map((issue: any) => issue.location.lines.begin), [3, 1]);
+  assert.notEqual(issues[0].fingerprint, issues[1].fingerprint);
+
+  const withFingerprint = JSON.parse(toGitLabCodeQuality([{ ...rows[0], fingerprint: "abc" }, { ...rows[1], fingerprint: "abc" }]));
+  assert.equal(withFingerprint[0].fingerprint, withFingerprint[1].fingerprint);
+
+  const climate = toCodeClimate(rows).split("\0");
+  assert.equal(climate.length, 3);
+  assert.equal(climate[2], "");
+  assert.equal(JSON.parse(climate[0]).type, "issue");
+});
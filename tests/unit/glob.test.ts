@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { globToRegExp } from "../../src/glob.js";
+
+test("* and ? stay within one path segment", () => {
+  const re = globToRegExp("src/*.ts");
+  assert.ok(re.test("src/index.ts"));
+  assert.ok(!re.test("src/lib/index.ts"));
+  assert.ok(globToRegExp("a?.js").test("ab.js"));
+  assert.ok(!globToRegExp("a?.js").test("a/.js"));
+});
+
+test("** matches zero or more directories", () => {
+  const re = globToRegExp("src/**/*.ts");
+  assert.ok(re.test("src/index.ts"));
+  assert.ok(re.test("src/a/b/index.ts"));
+  assert.ok(!re.test("test/index.ts"));
+  assert.ok(globToRegExp("vendor/**").test("vendor/a/b.js"));
+});
+
+test("{a,b} alternatives and regex characters", () => {
+  const re = globToRegExp("**/*.{js,ts}");
+  assert.ok(re.test("a/b.js"));
+  assert.ok(re.test("b.ts"));
+  assert.ok(!re.test("b.tsx"));
+  assert.ok(globToRegExp("lib/a+b(1).js").test("lib/a+b(1).js"));
+  assert.ok(!globToRegExp("a.js").test("abjs"));
+});
@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Job, JobManager } from "../../src/jobs.js";
+
+async function withJobFile(run: (file: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), "codeql-mcp-jobs-"));
+  try {
+    await run(join(dir, "jobs.json"));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function until(condition: () => boolean | Promise<boolean>) {
+  for (let i = 0; i < 200; i++) {
+    if (await condition()) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error("Timed out waiting for condition");
+}
+
+async function persisted(file: string, id: string): Promise<Job | undefined> {
+  try {
+    return (JSON.parse(await readFile(file, "utf-8")) as Job[]).find(job => job.id === id);
+  } catch {
+    return undefined;
+  }
+}
+
+test("jobs left queued or running by a previous server are marked interrupted", async () => {
+  await withJobFile(async file => {
+    const job = (id: string, status: string) => ({
+      id, type: "create_database", database_name: "app", status, phase: "", created: "2026-01-01T00:00:00Z", output: [],
+    });
+    await writeFile(file, JSON.stringify([job("a", "running"), job("b", "queued"), job("c", "completed")]));
+
+    const manager = new JobManager(file);
+    await manager.load();
+    assert.equal(manager.get("a")?.status, "interrupted");
+    assert.equal(manager.get("b")?.status, "interrupted");
+    assert.equal(manager.get("c")?.status, "completed");
+    assert.equal((await persisted(file, "a"))?.status, "interrupted");
+  });
+});
+
+test("jobs run one at a time and their outcome is persisted", async () => {
+  await withJobFile(async file => {
+    const manager = new JobManager(file);
+    let active = 0;
+    let maxActive = 0;
+    const runner = (result: string) => async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+      return result;
+    };
+
+    const first = manager.enqueue("create_database", "app", runner("created"));
+    const second = manager.enqueue("build_graph_index", "app", async ctx => {
+      ctx.setPhase("Extracting");
+      ctx.onOutput("line 1\n\nline 2");
+      throw new Error("extraction failed");
+    });
+
+    await until(() => first.status === "completed" && second.status === "failed");
+    assert.equal(maxActive, 1);
+    assert.equal(first.result, "created");
+    assert.equal(second.error, "extraction failed");
+    assert.deepEqual(second.output, ["[Extracting]", "line 1", "line 2"]);
+    await until(async () => (await persisted(file, second.id))?.status === "failed");
+  });
+});
+
+test("cancel removes queued jobs and aborts running ones", async () => {
+  await withJobFile(async file => {
+    const manager = new JobManager(file);
+    let started = false;
+    const running = manager.enqueue("create_database", "app", ctx => new Promise((_, reject) => {
+      started = true;
+      ctx.signal.addEventListener("abort", () => reject(new Error("aborted")));
+    }));
+    const queued = manager.enqueue("build_graph_index", "app", async () => "never");
+
+    await until(() => started);
+    manager.cancel(queued.id);
+    assert.equal(queued.status, "cancelled");
+
+    manager.cancel(running.id);
+    await until(() => running.status === "cancelled");
+    assert.equal(queued.started, undefined);
+    assert.throws(() => manager.cancel(running.id), /already cancelled/);
+    assert.throws(() => manager.cancel("missing"), /not found/);
+  });
+});
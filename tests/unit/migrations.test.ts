@@ -0,0 +1,92 @@
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import pg from "pg";
+import { loadMigrations, migrate } from "../../src/postgres.js";
+
+// postgres.js looks for ../scripts/migrations, which from build-test/src
+// is build-test/scripts; point it at the repository's migrations
+before(async () => {
+  const buildRoot = fileURLToPath(new URL("../../", import.meta.url));
+  await symlink(join(buildRoot, "..", "scripts"), join(buildRoot, "scripts")).catch((error: any) => {
+    if (error.code !== "EEXIST") {
+      throw error;
+    }
+  });
+});
+
+test("loadMigrations orders by numeric version and skips other files", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeql-mcp-migrations-"));
+  try {
+    await writeFile(join(dir, "010_tenth.sql"), "SELECT 10;");
+    await writeFile(join(dir, "2_second.sql"), "SELECT 2;");
+    await writeFile(join(dir, "001_first.sql"), "SELECT 1;");
+    await writeFile(join(dir, "README.md"), "notes");
+    await writeFile(join(dir, "draft.sql"), "SELECT 0;");
+
+    const migrations = await loadMigrations(dir);
+    assert.deepEqual(migrations.map(m => `${m.version}_${m.name}`), ["1_first", "2_second", "10_tenth"]);
+    assert.notEqual(migrations[0].checksum, migrations[1].checksum);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("shipped migrations have unique versions", async () => {
+  const versions = (await loadMigrations()).map(m => m.version);
+  assert.ok(versions.length > 0);
+  assert.equal(new Set(versions).size, versions.length);
+});
+
+/**
+ * Replace the pool's connections with a client that records its SQL. No
+ * migration counts as applied; `failOn` makes a statement throw.
+ */
+function fakePool(statements: string[], failOn?: string) {
+  const original = { connect: pg.Pool.prototype.connect, query: pg.Pool.prototype.query };
+  const query = async (sql: string) => {
+    statements.push(sql.trim().split("\n")[0]);
+    if (failOn && sql.includes(failOn)) {
+      throw new Error("boom");
+    }
+    return { rows: [] };
+  };
+  (pg.Pool.prototype as any).query = query;
+  (pg.Pool.prototype as any).connect = async () => ({ query, release: () => statements.push("release") });
+  return () => Object.assign(pg.Pool.prototype, original);
+}
+
+test("migrate applies pending migrations in order while holding the advisory lock", async () => {
+  const statements: string[] = [];
+  const restore = fakePool(statements);
+  try {
+    const applied = await migrate();
+    const shipped = await loadMigrations();
+    assert.deepEqual(applied.map(m => m.version), shipped.map(m => m.version));
+
+    assert.match(statements[0], /pg_advisory_lock/);
+    assert.match(statements[statements.length - 2], /pg_advisory_unlock/);
+    assert.equal(statements[statements.length - 1], "release");
+    assert.equal(statements.filter(s => s === "BEGIN").length, shipped.length);
+    assert.equal(statements.filter(s => s === "COMMIT").length, shipped.length);
+  } finally {
+    restore();
+  }
+});
+
+test("migrate rolls back a failing migration and still releases the lock", async () => {
+  const statements: string[] = [];
+  const restore = fakePool(statements, "INSERT INTO schema_migrations");
+  try {
+    await assert.rejects(migrate(), /Migration \d+_\w+ failed: boom/);
+    assert.ok(statements.includes("ROLLBACK"));
+    assert.ok(!statements.includes("COMMIT"));
+    assert.match(statements[statements.length - 2], /pg_advisory_unlock/);
+    assert.equal(statements[statements.length - 1], "release");
+  } finally {
+    restore();
+  }
+});
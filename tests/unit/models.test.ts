@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, mkdir, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ModelPackStore, validateModels } from "../../src/models.js";
+
+const models = { sinkModel: [["mysql", "Member[query].Argument[0]", "sql-injection"]] };
+
+async function withStore(run: (store: ModelPackStore, dir: string) => Promise<void>) {
+  const root = await mkdtemp(join(tmpdir(), "codeql-mcp-models-"));
+  try {
+    await run(new ModelPackStore(join(root, "models")), root);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+}
+
+test("create, get and delete round-trip a pack", async () => {
+  await withStore(async store => {
+    const pack = await store.create("javascript", "internal-db", models);
+    assert.equal(pack.packName, "codeql-mcp/javascript-internal-db-models");
+
+    const read = await store.get("javascript", "internal-db");
+    assert.deepEqual(read?.models, models);
+
+    assert.equal(await store.delete("javascript", "internal-db"), true);
+    assert.equal(await store.get("javascript", "internal-db"), null);
+    assert.equal(await store.delete("javascript", "internal-db"), false);
+  });
+});
+
+test("pack paths outside the store are rejected", async () => {
+  await withStore(async (store, root) => {
+    // A sibling of the models directory, like ~/.codeql-mcp/databases
+    await mkdir(join(root, "databases"), { recursive: true });
+
+    await assert.rejects(store.delete("..", "databases"), /not supported for '\.\.'/);
+    await assert.rejects(store.get("..", "databases"), /not supported/);
+    await assert.rejects(store.delete("javascript", "../../databases"), /Pack name must be/);
+    await assert.rejects(store.get("javascript", ".."), /Pack name must be/);
+    await assert.rejects(store.create("javascript", "a/b", models), /Pack name must be/);
+    await assert.rejects(store.create("typescript", "web", models), /not supported/);
+
+    await stat(join(root, "databases"));
+    assert.deepEqual(await store.list(".."), []);
+  });
+});
+
+test("unreadable packs are listed and stop packArgs", async () => {
+  await withStore(async (store, root) => {
+    await store.create("python", "ok", { sinkModel: [["db", "Member[run].Argument[0]", "sql-injection"]] });
+    assert.equal((await store.packArgs("python")).length, 2);
+
+    const pack = await store.create("python", "edited", { sinkModel: [["db", "Member[exec].Argument[0]", "sql-injection"]] });
+    await writeFile(join(pack.path, "models", "edited.model.yml"), "extensions:\n  - addsTo: {}\n");
+    await mkdir(join(root, "models", "python", "empty"), { recursive: true });
+
+    const packs = await store.list("python");
+    assert.deepEqual(packs.map(p => [p.name, Boolean(p.error)]), [["edited", true], ["empty", true], ["ok", false]]);
+    assert.match(packs[1].error!, /empty\.model\.yml is missing/);
+    await assert.rejects(store.packArgs("python"), /Model pack 'python\/edited' cannot be read/);
+  });
+});
+
+test("validateModels checks the column layout per language", () => {
+  assert.deepEqual(validateModels("javascript", models), []);
+  assert.deepEqual(validateModels("swift", models), ["Models-as-data is not supported for 'swift'"]);
+  assert.deepEqual(validateModels("python", { sinkModel: [["a", "b"]] }), [
+    "sinkModel[0] must have 3 columns: type, path, kind",
+  ]);
+  assert.deepEqual(
+    validateModels("java", { sinkModel: [["p", "T", "true", "m", "()", "", "Argument[0]", "sql-injection", "manual"]] }),
+    ["sinkModel[0].subtypes must be a boolean"]
+  );
+  assert.deepEqual(validateModels("go", {}), ["The pack defines no models"]);
+});
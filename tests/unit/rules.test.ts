@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RuleInfo, filterRules, parseQueryMetadata, readRuleInfo, ruleLanguage } from "../../src/rules.js";
+
+const query = `/**
+ * @name Database query built from user-controlled sources
+ * @description Building a database query from user-controlled sources is
+ *              vulnerable to insertion of malicious code by the user.
+ * @kind path-problem
+ * @problem.severity error
+ * @security-severity 8.8
+ * @precision high
+ * @id js/sql-injection
+ * @tags security
+ *       external/cwe/cwe-089
+ *       external/cwe/cwe-090
+ */
+
+import javascript
+`;
+
+test("parseQueryMetadata joins wrapped tag values", () => {
+  const metadata = parseQueryMetadata(query);
+  assert.equal(metadata.description, "Building a database query from user-controlled sources is vulnerable to insertion of malicious code by the user.");
+  assert.equal(metadata["problem.severity"], "error");
+  assert.equal(metadata.tags, "security external/cwe/cwe-089 external/cwe/cwe-090");
+  assert.deepEqual(parseQueryMetadata("import javascript"), {});
+});
+
+test("readRuleInfo reads a query file's metadata", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeql-mcp-rules-"));
+  try {
+    const path = join(dir, "SqlInjection.ql");
+    await writeFile(path, query);
+    assert.deepEqual(await readRuleInfo(path), {
+      id: "js/sql-injection",
+      name: "Database query built from user-controlled sources",
+      description: "Building a database query from user-controlled sources is vulnerable to insertion of malicious code by the user.",
+      kind: "path-problem",
+      severity: "error",
+      securitySeverity: 8.8,
+      precision: "high",
+      tags: ["security", "external/cwe/cwe-089", "external/cwe/cwe-090"],
+      cwes: ["CWE-89", "CWE-90"],
+      path,
+    });
+
+    await writeFile(path, "/** @name No id */\nselect 1\n");
+    assert.equal(await readRuleInfo(path), null);
+    assert.equal(await readRuleInfo(join(dir, "missing.ql")), null);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("filterRules matches tags and CWE ids in any spelling", () => {
+  const rule = (id: string, tags: string[], cwes: string[]): RuleInfo => ({ id, tags, cwes, path: `${id}.ql` });
+  const rules = [
+    rule("js/sql-injection", ["security"], ["CWE-89"]),
+    rule("js/xss", ["security"], ["CWE-79"]),
+    rule("js/unused-local-variable", ["maintainability"], []),
+  ];
+
+  assert.deepEqual(filterRules(rules, { tag: "security" }).map(r => r.id), ["js/sql-injection", "js/xss"]);
+  for (const cwe of ["89", 89, "CWE-89", "cwe-089"]) {
+    assert.deepEqual(filterRules(rules, { cwe }).map(r => r.id), ["js/sql-injection"]);
+  }
+  assert.deepEqual(filterRules(rules, { tag: "maintainability", cwe: "79" }), []);
+  assert.equal(filterRules(rules, {}).length, 3);
+});
+
+test("ruleLanguage maps standard rule id prefixes", () => {
+  assert.equal(ruleLanguage("py/sql-injection"), "python");
+  assert.equal(ruleLanguage("rb/xss"), "ruby");
+  assert.equal(ruleLanguage("custom/rule"), undefined);
+});
@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Finding, diffFindings, filterFindings, parseFindings, resultFingerprint } from "../../src/sarif.js";
+
+function result(file: string, line: number, hash?: string, message = "Query built from user input") {
+  return {
+    ruleId: "js/sql-injection",
+    message: { text: message },
+    locations: [{ physicalLocation: { artifactLocation: { uri: file }, region: { startLine: line } } }],
+    ...(hash ? { partialFingerprints: { primaryLocationLineHash: hash } } : {}),
+  };
+}
+
+function finding(overrides: Partial<Finding>): Finding {
+  return {
+    fingerprint: "",
+    rule: "js/sql-injection",
+    message: "Query built from user input",
+    level: "error",
+    locations: [],
+    tags: [],
+    paths: [],
+    ...overrides,
+  };
+}
+
+test("identical lines in different files get different fingerprints", () => {
+  const a = resultFingerprint(result("src/a.js", 10, "abc:1"), "js/sql-injection");
+  const b = resultFingerprint(result("src/b.js", 10, "abc:1"), "js/sql-injection");
+  assert.equal(a, "js/sql-injection:src/a.js:abc:1");
+  assert.notEqual(a, b);
+});
+
+test("fingerprints survive line shifts within a file", () => {
+  assert.equal(
+    resultFingerprint(result("src/a.js", 10, "abc:1"), "js/sql-injection"),
+    resultFingerprint(result("src/a.js", 42, "abc:1"), "js/sql-injection")
+  );
+});
+
+test("results without partialFingerprints hash rule, file and message", () => {
+  const a = resultFingerprint(result("src/a.js", 10), "js/sql-injection");
+  assert.match(a, /^js\/sql-injection:sha256=[0-9a-f]{32}$/);
+  assert.equal(a, resultFingerprint(result("src/a.js", 99), "js/sql-injection"));
+  assert.notEqual(a, resultFingerprint(result("src/b.js", 10), "js/sql-injection"));
+  assert.notEqual(a, resultFingerprint(result("src/a.js", 10, undefined, "Other message"), "js/sql-injection"));
+});
+
+test("parseFindings annotates results with rule metadata", () => {
+  const sarif = {
+    runs: [{
+      tool: {
+        driver: {
+          rules: [{
+            id: "js/sql-injection",
+            properties: { "security-severity": "8.8", precision: "high", tags: ["security", "external/cwe/cwe-089"] },
+          }],
+        },
+      },
+      results: [result("src/a.js", 10, "abc:1")],
+    }],
+  };
+
+  const [parsed] = parseFindings(sarif);
+  assert.equal(parsed.fingerprint, "js/sql-injection:src/a.js:abc:1");
+  assert.equal(parsed.securitySeverity, 8.8);
+  assert.equal(parsed.level, "warning");
+  assert.deepEqual(parsed.locations[0], { file: "src/a.js", line: 10, column: undefined, snippet: undefined });
+});
+
+test("filterFindings applies every threshold", () => {
+  const findings = [
+    finding({ fingerprint: "1", level: "error", securitySeverity: 9.1, precision: "high", tags: ["security"] }),
+    finding({ fingerprint: "2", level: "warning", securitySeverity: 5, precision: "medium" }),
+    finding({ fingerprint: "3", level: "note", precision: "very-high" }),
+  ];
+  const ids = (filter: Parameters<typeof filterFindings>[1]) => filterFindings(findings, filter).map(f => f.fingerprint);
+
+  assert.deepEqual(ids({ minLevel: "warning" }), ["1", "2"]);
+  assert.deepEqual(ids({ minSecuritySeverity: 7 }), ["1"]);
+  assert.deepEqual(ids({ minPrecision: "high" }), ["1", "3"]);
+  assert.deepEqual(ids({ tags: ["security"] }), ["1"]);
+});
+
+test("diffFindings matches by fingerprint, then by rule, file and snippet", () => {
+  const base = [
+    finding({ fingerprint: "same", locations: [{ file: "a.js", line: 1 }] }),
+    finding({ fingerprint: "old-hash", locations: [{ file: "a.js", line: 5, snippet: "db.query(q)" }] }),
+    finding({ fingerprint: "gone", locations: [{ file: "b.js", line: 3, snippet: "db.query(x)" }] }),
+  ];
+  const head = [
+    finding({ fingerprint: "same", locations: [{ file: "a.js", line: 2 }] }),
+    finding({ fingerprint: "new-hash", locations: [{ file: "a.js", line: 8, snippet: "db.query(q)" }] }),
+    // Same snippet as a base finding, but in another file
+    finding({ fingerprint: "new", locations: [{ file: "c.js", line: 3, snippet: "db.query(x)" }] }),
+  ];
+
+  const diff = diffFindings(base, head);
+  assert.deepEqual(diff.persisting.map(f => f.fingerprint), ["same", "new-hash"]);
+  assert.deepEqual(diff.added.map(f => f.fingerprint), ["new"]);
+  assert.deepEqual(diff.fixed.map(f => f.fingerprint), ["gone"]);
+});
+
+test("diffFindings pairs duplicate findings one to one", () => {
+  const twice = [finding({ fingerprint: "dup" }), finding({ fingerprint: "dup" })];
+  const diff = diffFindings(twice, [finding({ fingerprint: "dup" })]);
+  assert.equal(diff.persisting.length, 1);
+  assert.equal(diff.fixed.length, 1);
+  assert.equal(diff.added.length, 0);
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TaintSpec, generateTaintQuery, validateTaintSpec } from "../../src/taint.js";
+
+const spec: TaintSpec = {
+  sources: [{ kind: "member", object: "req", property: "query" }],
+  sinks: [{ kind: "argument", function: "query", index: 0 }],
+};
+
+test("generates a path-problem query for the spec", () => {
+  const query = generateTaintQuery("javascript", { ...spec, name: "Request to SQL" });
+  assert.match(query, /^ \* @name Request to SQL$/m);
+  assert.match(query, /r\.getPropertyName\(\) = "query" and r\.getBase\(\)\.asExpr\(\)\.\(VarAccess\)\.getName\(\) = "req"/);
+  assert.match(query, /c\.getCalleeName\(\) = "query" and node = c\.getArgument\(0\)/);
+  assert.match(query, /predicate isBarrier\(DataFlow::Node node\) \{\n    none\(\)/);
+});
+
+test("python sources match plain and method calls", () => {
+  const query = generateTaintQuery("python", { sources: [{ kind: "call", function: "input" }], sinks: spec.sinks });
+  assert.match(query, /\(c\.getFunction\(\)\.asExpr\(\)\.\(Name\)\.getId\(\) = "input" or c\.getFunction\(\)\.asExpr\(\)\.\(Attribute\)\.getName\(\) = "input"\)/);
+});
+
+test("the message is escaped and keeps one $@ placeholder", () => {
+  const query = generateTaintQuery("javascript", { ...spec, message: 'User "input"\nreaches SQL' });
+  assert.match(query, /"User \\"input\\" reaches SQL \(source: \$@\)", source\.getNode\(\), "source"/);
+});
+
+test("names that would break out of the QLDoc comment are rejected", () => {
+  assert.throws(() => validateTaintSpec({ ...spec, name: "x */ import evil /**" }), /spec\.name must be a single line without \*\//);
+  assert.throws(() => validateTaintSpec({ ...spec, name: "x\n * @kind problem" }), /spec\.name/);
+  assert.throws(() => generateTaintQuery("javascript", { ...spec, name: "a*/" }), /spec\.name/);
+  validateTaintSpec({ ...spec, name: "Request query * to SQL / sink" });
+});
+
+test("identifiers and kinds are validated", () => {
+  assert.throws(() => validateTaintSpec({ ...spec, sources: [] }), /spec\.sources must list at least one source/);
+  assert.throws(
+    () => validateTaintSpec({ ...spec, sinks: [{ kind: "call", function: 'x") or any() or ("' }] }),
+    /spec\.sinks\[0\]\.function must be an identifier/
+  );
+  assert.throws(() => validateTaintSpec({ ...spec, sinks: [{ kind: "argument", function: "q", index: -1 }] }), /index/);
+  assert.throws(() => validateTaintSpec({ ...spec, sinks: [{ kind: "other" as any, function: "q" }] }), /kind must be one of/);
+  assert.throws(() => generateTaintQuery("ruby", spec), /supports javascript and python, not 'ruby'/);
+});
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SUPPRESSING_STATUSES, TriageDecision, TriageStore } from "../../src/triage.js";
+
+function decision(fingerprint: string, status: TriageDecision["status"], updated: string): TriageDecision {
+  return { rule: "js/xss", fingerprint, status, comment: "", author: "me", updated };
+}
+
+test("triage decisions survive a reload, keyed by rule and fingerprint", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeql-mcp-triage-"));
+  try {
+    const file = join(dir, "triage.json");
+    const store = new TriageStore(file);
+    await store.load();
+    await store.set(decision("a", "false-positive", "2026-01-01T00:00:00Z"));
+    await store.set(decision("b", "confirmed", "2026-01-02T00:00:00Z"));
+    await store.set({ ...decision("a", "wont-fix", "2026-01-03T00:00:00Z"), rule: "js/sql-injection" });
+
+    const reloaded = new TriageStore(file);
+    await reloaded.load();
+    assert.equal(reloaded.get("js/xss", "a")?.status, "false-positive");
+    assert.equal(reloaded.get("js/sql-injection", "a")?.status, "wont-fix");
+    assert.equal(reloaded.get("js/xss", "c"), undefined);
+    assert.deepEqual(reloaded.list().map(d => d.updated), ["2026-01-03T00:00:00Z", "2026-01-02T00:00:00Z", "2026-01-01T00:00:00Z"]);
+
+    assert.equal(await reloaded.remove("js/xss", "a"), true);
+    assert.equal(await reloaded.remove("js/xss", "a"), false);
+    const afterRemove = new TriageStore(file);
+    await afterRemove.load();
+    assert.equal(afterRemove.get("js/xss", "a"), undefined);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("only false positives and won't-fix decisions suppress findings", () => {
+  assert.deepEqual(SUPPRESSING_STATUSES, ["false-positive", "wont-fix"]);
+});